@@ -6,10 +6,37 @@ import dotenv from 'dotenv';
 import { contactRouter } from './routes/contact.js';
 import { subscriberRouter } from './routes/subscriber.js';
 import { appointmentRouter } from './routes/appointment.js';
+import { appointmentManageRouter } from './routes/appointmentManage.js';
 import { blogRouter } from './routes/blog.js';
+import { authRouter } from './routes/auth.js';
+import { userRouter } from './routes/user.js';
+import { scheduleRouter } from './routes/schedule.js';
+import { treatmentRouter } from './routes/treatment.js';
+import { practitionerRouter } from './routes/practitioner.js';
+import { waitlistRouter } from './routes/waitlist.js';
+import { treatmentPlanRouter } from './routes/treatmentPlan.js';
+import { calendarRouter } from './routes/calendar.js';
+import { patientRouter } from './routes/patient.js';
+import { privacyRouter } from './routes/privacy.js';
+import { retentionRouter } from './routes/retention.js';
+import { feedbackRouter } from './routes/feedback.js';
+import { triageRouter } from './routes/triage.js';
+import { replyTemplateRouter } from './routes/replyTemplate.js';
 import { errorHandler } from './middleware/errorHandler.js';
 import { databaseService } from './services/databaseService.js';
 import { emailService } from './services/emailService.js';
+import { authService } from './services/authService.js';
+import { treatmentService } from './services/treatmentService.js';
+import { appointmentService } from './services/appointmentService.js';
+import { patientService } from './services/patientService.js';
+import { subscriberService } from './services/subscriberService.js';
+import { retentionService } from './services/retentionService.js';
+import { feedbackService } from './services/feedbackService.js';
+import { contactService } from './services/contactService.js';
+import { reminderService } from './services/reminderService.js';
+import { waitlistService } from './services/waitlistService.js';
+import { attendanceService } from './services/attendanceService.js';
+import { jobScheduler } from './services/jobScheduler.js';
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +53,21 @@ try {
   process.exit(1);
 }
 
+// Create the first admin account and the default treatment catalog if missing, and bring older records up to date
+try {
+  await authService.ensureBootstrapAdmin();
+  await treatmentService.ensureDefaults();
+  await appointmentService.backfillStartTimes();
+  await patientService.backfillPhoneNumbers();
+  await patientService.backfillLinks();
+  await subscriberService.backfillConfirmations();
+  await contactService.backfillDueDates();
+  await contactService.backfillReferenceKeys();
+  await retentionService.ensureDefaults();
+} catch (error) {
+  console.error('❌ Failed to seed default data:', error);
+}
+
 // Security middleware
 app.use(helmet());
 
@@ -81,8 +123,24 @@ app.get('/health', async (req, res) => {
 });
 
 // API routes
+app.use('/api/auth', authRouter);
+app.use('/api/users', userRouter);
 app.use('/api/contact', contactRouter);
+// Patient self-service links must be matched before the staff-only /:id routes
+app.use('/api/appointment/manage', appointmentManageRouter);
 app.use('/api/appointment', appointmentRouter);
+app.use('/api/schedule', scheduleRouter);
+app.use('/api/treatments', treatmentRouter);
+app.use('/api/practitioners', practitionerRouter);
+app.use('/api/waitlist', waitlistRouter);
+app.use('/api/treatment-plans', treatmentPlanRouter);
+app.use('/api/calendar', calendarRouter);
+app.use('/api/patients', patientRouter);
+app.use('/api/privacy', privacyRouter);
+app.use('/api/retention', retentionRouter);
+app.use('/api/feedback', feedbackRouter);
+app.use('/api/triage', triageRouter);
+app.use('/api/reply-templates', replyTemplateRouter);
 app.use('/api/blog', blogRouter);
 app.use('/api/subscriber', subscriberRouter);
 
@@ -97,15 +155,56 @@ app.use('*', (req, res) => {
 // Error handling middleware
 app.use(errorHandler);
 
+// Background jobs
+jobScheduler.register({
+  name: 'appointment-reminders',
+  intervalMs: parseInt(process.env.REMINDER_CHECK_INTERVAL_MINUTES || '15') * 60 * 1000,
+  handler: () => reminderService.sendDueReminders(),
+});
+
+jobScheduler.register({
+  name: 'waitlist-offers',
+  intervalMs: parseInt(process.env.WAITLIST_CHECK_INTERVAL_MINUTES || '15') * 60 * 1000,
+  handler: () => waitlistService.processOffers(),
+});
+
+jobScheduler.register({
+  name: 'no-show-detection',
+  intervalMs: parseInt(process.env.NO_SHOW_CHECK_INTERVAL_MINUTES || '15') * 60 * 1000,
+  handler: () => attendanceService.markNoShows(),
+});
+
+jobScheduler.register({
+  name: 'data-retention',
+  intervalMs: parseInt(process.env.RETENTION_CHECK_INTERVAL_MINUTES || '1440') * 60 * 1000,
+  // Anonymising a large backlog of appointments can take a while
+  lockTtlMs: 60 * 60 * 1000,
+  handler: () => retentionService.runEnabled(),
+});
+
+jobScheduler.register({
+  name: 'feedback-requests',
+  intervalMs: parseInt(process.env.FEEDBACK_CHECK_INTERVAL_MINUTES || '60') * 60 * 1000,
+  handler: () => feedbackService.sendDueRequests(),
+});
+
+jobScheduler.register({
+  name: 'contact-sla-alerts',
+  intervalMs: parseInt(process.env.CONTACT_SLA_CHECK_INTERVAL_MINUTES || '30') * 60 * 1000,
+  handler: () => contactService.sendOverdueAlerts(),
+});
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Shutting down server...');
+  jobScheduler.stop();
   await databaseService.disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Shutting down server...');
+  jobScheduler.stop();
   await databaseService.disconnect();
   process.exit(0);
 });
@@ -116,6 +215,7 @@ app.listen(PORT, () => {
   console.log(`📧 Email service configured for: ${process.env.EMAIL_USER}`);
   console.log(`🗄️  Database: ${process.env.MONGODB_URI || 'mongodb://localhost:27017/doctor-derma-clinic'}`);
   console.log(`🌐 Environment: ${process.env.NODE_ENV || 'development'}`);
+  jobScheduler.start();
 });
 
 export default app;
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { authService } from '../services/authService.js';
+import { User, IUser, StaffRole } from '../models/User.js';
+import { StatusActor } from '../models/Appointment.js';
+import { asyncHandler, createError } from './errorHandler.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: IUser;
+    }
+  }
+}
+
+// Verifies the Bearer access token and attaches the staff user to the request
+export const authenticate: RequestHandler = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('Authorization');
+  if (!header || !header.startsWith('Bearer ')) {
+    throw createError('Authentication required', 401);
+  }
+
+  let userId: string;
+  try {
+    userId = authService.verifyAccessToken(header.slice(7)).sub;
+  } catch {
+    throw createError('Invalid or expired token', 401);
+  }
+
+  const user = await User.findById(userId);
+  if (!user || !user.isActive) {
+    throw createError('Account not found or disabled', 401);
+  }
+
+  req.user = user;
+  next();
+});
+
+// Restricts a route to the given roles; admins are always allowed
+export const authorize = (...roles: StaffRole[]): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(createError('Authentication required', 401));
+    }
+    if (req.user.role !== 'admin' && !roles.includes(req.user.role)) {
+      return next(createError('You do not have permission to perform this action', 403));
+    }
+    next();
+  };
+};
+
+// Shorthand for authenticate + authorize
+export const requireRole = (...roles: StaffRole[]): RequestHandler[] => [authenticate, authorize(...roles)];
+
+// Identifies the signed-in staff member in audit records such as appointment status history
+export const getStaffActor = (req: Request): StatusActor => ({
+  kind: 'staff',
+  user: req.user?._id as StatusActor['user'],
+  name: req.user?.name,
+});
@@ -1,33 +1,227 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { parseTimeSlot, getSlotStart, getClinicDateKey, toDateKey, formatCalendarDate } from '../utils/timeSlots.js';
+import { createError } from '../middleware/errorHandler.js';
+import { storePhoneAsE164 } from '../utils/contactDetails.js';
+
+export const APPOINTMENT_STATUSES = ['pending', 'confirmed', 'cancelled', 'completed', 'no-show'] as const;
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+// The only status moves allowed; everything else is rejected with a 409
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['completed', 'no-show', 'cancelled'],
+  cancelled: [],
+  completed: [],
+  // Lets staff correct a no-show when the patient turned up late
+  'no-show': ['completed'],
+};
+
+export const canTransitionStatus = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_STATUS_TRANSITIONS[from].includes(to);
+
+export interface StatusActor {
+  kind: 'staff' | 'patient' | 'system';
+  user?: Types.ObjectId;
+  name?: string;
+}
+
+export interface IStatusChange {
+  from?: AppointmentStatus;
+  to: AppointmentStatus;
+  changedAt: Date;
+  changedBy: StatusActor;
+  reason?: string;
+}
+
+export interface IRescheduleEntry {
+  fromDate: Date;
+  fromTime: string;
+  toDate: Date;
+  toTime: string;
+  rescheduledAt: Date;
+  rescheduledBy: StatusActor;
+  reason?: string;
+}
+
+// An email staff sent the patient about the appointment, written by hand or from a reply template
+export interface IAppointmentMessage {
+  subject: string;
+  body: string;
+  template?: Types.ObjectId;
+  templateName?: string;
+  messageId?: string;
+  sentBy?: Types.ObjectId;
+  sentByName?: string;
+  sentAt: Date;
+}
 
 export interface IAppointment extends Document {
   name: string;
   email: string;
-  phone: string;
+  phone: string; // E.164, e.g. +919876543210
+  phoneRaw?: string; // as the patient typed it
+  patient?: Types.ObjectId;
   treatmentType: string;
+  treatment?: Types.ObjectId;
   preferredDate: Date;
   preferredTime: string;
   message?: string;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no-show';
+  status: AppointmentStatus;
+  statusHistory: IStatusChange[];
+  rescheduleHistory: IRescheduleEntry[]; // previous slots, oldest move first
+  messages: IAppointmentMessage[]; // oldest first
   priority: 'low' | 'medium' | 'high';
   confirmedDate?: Date;
   confirmedTime?: string;
   actualDate?: Date;
   actualTime?: string;
   duration: number; // in minutes
+  startsAt?: Date; // instant the scheduled slot starts, in the clinic's timezone
+  endsAt?: Date;
   notes?: string;
   assignedTo?: string;
+  practitioner?: Types.ObjectId;
+  treatmentPlan?: Types.ObjectId;
+  sessionNumber?: number; // position within the treatment plan, starting at 1
   tags: string[];
   reminderSent: boolean;
   reminderSentAt?: Date;
+  checkedInAt?: Date; // set at the front desk when the patient arrives
+  checkedInBy?: StatusActor;
+  requiresReconfirmation: boolean; // set at booking for patients with repeated no-shows
+  reconfirmedAt?: Date;
+  calendarSequence: number; // iCalendar SEQUENCE, bumped whenever the event changes
   cancelledAt?: Date;
   cancelledReason?: string;
+  completedAt?: Date;
+  feedbackRequestedAt?: Date; // when the post-visit survey email was sent
+  anonymisedAt?: Date; // personal details removed by an erasure request
   createdAt: Date;
   updatedAt: Date;
   // Virtuals
   referenceId?: string;
+  // Methods
+  transitionTo(status: AppointmentStatus, actor: StatusActor, reason?: string): void;
 }
 
+const StatusChangeSchema = new Schema<IStatusChange>({
+  from: {
+    type: String,
+    enum: APPOINTMENT_STATUSES
+  },
+  to: {
+    type: String,
+    enum: APPOINTMENT_STATUSES,
+    required: true
+  },
+  changedAt: {
+    type: Date,
+    required: true
+  },
+  changedBy: {
+    kind: {
+      type: String,
+      enum: ['staff', 'patient', 'system'],
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: {
+      type: String,
+      trim: true
+    }
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const RescheduleEntrySchema = new Schema<IRescheduleEntry>({
+  fromDate: {
+    type: Date,
+    required: true
+  },
+  fromTime: {
+    type: String,
+    required: true
+  },
+  toDate: {
+    type: Date,
+    required: true
+  },
+  toTime: {
+    type: String,
+    required: true
+  },
+  rescheduledAt: {
+    type: Date,
+    required: true
+  },
+  rescheduledBy: {
+    kind: {
+      type: String,
+      enum: ['staff', 'patient', 'system'],
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: {
+      type: String,
+      trim: true
+    }
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const AppointmentMessageSchema = new Schema<IAppointmentMessage>({
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [200, 'Subject cannot exceed 200 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [10000, 'Message cannot exceed 10000 characters']
+  },
+  template: {
+    type: Schema.Types.ObjectId,
+    ref: 'ReplyTemplate'
+  },
+  templateName: {
+    type: String,
+    trim: true
+  },
+  messageId: {
+    type: String,
+    trim: true
+  },
+  sentBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  sentByName: {
+    type: String,
+    trim: true
+  },
+  sentAt: {
+    type: Date,
+    required: true
+  }
+});
+
 const AppointmentSchema = new Schema<IAppointment>({
   name: {
     type: String,
@@ -49,33 +243,32 @@ const AppointmentSchema = new Schema<IAppointment>({
     trim: true,
     match: [/^[\+]?[\d\s\-\(\)]+$/, 'Please enter a valid phone number']
   },
+  phoneRaw: {
+    type: String,
+    trim: true
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
   treatmentType: {
     type: String,
     required: [true, 'Treatment type is required'],
-    enum: [
-      'Acne Treatment',
-      'Anti-Aging Treatment',
-      'Chemical Peels',
-      'Pigmentation Treatment',
-      'Hair Transplant',
-      'PRP Hair Therapy',
-      'Hair Loss Treatment',
-      'Scalp Treatment',
-      'Laser Hair Removal',
-      'Laser Skin Resurfacing',
-      'Laser Tattoo Removal',
-      'Laser Pigmentation Removal',
-      'General Consultation'
-    ]
+    trim: true,
+    maxlength: [100, 'Treatment type cannot exceed 100 characters']
+  },
+  treatment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Treatment'
   },
   preferredDate: {
     type: Date,
     required: [true, 'Preferred date is required'],
     validate: {
-      validator: function(value: Date) {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        return value >= today;
+      // Only checked when the date is set, so past appointments can still be updated
+      validator: function(this: IAppointment, value: Date) {
+        if (!this.isNew && !this.isModified('preferredDate')) return true;
+        return toDateKey(value) >= getClinicDateKey();
       },
       message: 'Preferred date cannot be in the past'
     }
@@ -83,17 +276,11 @@ const AppointmentSchema = new Schema<IAppointment>({
   preferredTime: {
     type: String,
     required: [true, 'Preferred time is required'],
-    enum: [
-      '9:00 AM',
-      '10:00 AM',
-      '11:00 AM',
-      '12:00 PM',
-      '2:00 PM',
-      '3:00 PM',
-      '4:00 PM',
-      '5:00 PM',
-      '6:00 PM'
-    ]
+    // Open slots come from the clinic schedule; the model only checks the format
+    validate: {
+      validator: (value: string) => parseTimeSlot(value) !== null,
+      message: 'Preferred time must look like "10:00 AM"'
+    }
   },
   message: {
     type: String,
@@ -102,9 +289,21 @@ const AppointmentSchema = new Schema<IAppointment>({
   },
   status: {
     type: String,
-    enum: ['pending', 'confirmed', 'cancelled', 'completed', 'no-show'],
+    enum: APPOINTMENT_STATUSES,
     default: 'pending'
   },
+  statusHistory: {
+    type: [StatusChangeSchema],
+    default: []
+  },
+  rescheduleHistory: {
+    type: [RescheduleEntrySchema],
+    default: []
+  },
+  messages: {
+    type: [AppointmentMessageSchema],
+    default: []
+  },
   priority: {
     type: String,
     enum: ['low', 'medium', 'high'],
@@ -128,6 +327,12 @@ const AppointmentSchema = new Schema<IAppointment>({
     min: [15, 'Duration must be at least 15 minutes'],
     max: [480, 'Duration cannot exceed 8 hours']
   },
+  startsAt: {
+    type: Date
+  },
+  endsAt: {
+    type: Date
+  },
   notes: {
     type: String,
     trim: true,
@@ -137,6 +342,18 @@ const AppointmentSchema = new Schema<IAppointment>({
     type: String,
     trim: true
   },
+  practitioner: {
+    type: Schema.Types.ObjectId,
+    ref: 'Practitioner'
+  },
+  treatmentPlan: {
+    type: Schema.Types.ObjectId,
+    ref: 'TreatmentPlan'
+  },
+  sessionNumber: {
+    type: Number,
+    min: [1, 'Session number must be at least 1']
+  },
   tags: [{
     type: String,
     trim: true
@@ -148,6 +365,34 @@ const AppointmentSchema = new Schema<IAppointment>({
   reminderSentAt: {
     type: Date
   },
+  checkedInAt: {
+    type: Date
+  },
+  checkedInBy: {
+    kind: {
+      type: String,
+      enum: ['staff', 'patient', 'system']
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    name: {
+      type: String,
+      trim: true
+    }
+  },
+  requiresReconfirmation: {
+    type: Boolean,
+    default: false
+  },
+  reconfirmedAt: {
+    type: Date
+  },
+  calendarSequence: {
+    type: Number,
+    default: 0
+  },
   cancelledAt: {
     type: Date
   },
@@ -155,6 +400,15 @@ const AppointmentSchema = new Schema<IAppointment>({
     type: String,
     trim: true,
     maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
+  },
+  completedAt: {
+    type: Date
+  },
+  feedbackRequestedAt: {
+    type: Date
+  },
+  anonymisedAt: {
+    type: Date
   }
 }, {
   timestamps: true,
@@ -164,31 +418,29 @@ const AppointmentSchema = new Schema<IAppointment>({
 
 // Indexes for better query performance
 AppointmentSchema.index({ email: 1 });
+AppointmentSchema.index({ phone: 1 });
+AppointmentSchema.index({ patient: 1 });
 AppointmentSchema.index({ status: 1 });
 AppointmentSchema.index({ preferredDate: 1 });
 AppointmentSchema.index({ confirmedDate: 1 });
 AppointmentSchema.index({ treatmentType: 1 });
+AppointmentSchema.index({ practitioner: 1, confirmedDate: 1 });
+AppointmentSchema.index({ startsAt: 1 });
+AppointmentSchema.index({ status: 1, startsAt: 1 });
+AppointmentSchema.index({ status: 1, endsAt: 1 });
+AppointmentSchema.index({ status: 1, completedAt: 1 });
+AppointmentSchema.index({ treatmentPlan: 1, sessionNumber: 1 });
 AppointmentSchema.index({ createdAt: -1 });
 AppointmentSchema.index({ name: 'text', email: 'text', treatmentType: 'text' });
 
 // Virtual for formatted date
 AppointmentSchema.virtual('formattedPreferredDate').get(function() {
-  return this.preferredDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
+  return formatCalendarDate(this.preferredDate);
 });
 
 AppointmentSchema.virtual('formattedConfirmedDate').get(function() {
   if (!this.confirmedDate) return null;
-  return this.confirmedDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
+  return formatCalendarDate(this.confirmedDate);
 });
 
 // Virtual for appointment reference
@@ -196,6 +448,55 @@ AppointmentSchema.virtual('referenceId').get(function(this: IAppointment) {
   return `APT-${(this._id as any).toString().slice(-8).toUpperCase()}`;
 });
 
+// Remember the stored status so pre-save can check the move against it
+AppointmentSchema.post('init', function(doc) {
+  doc.$locals.previousStatus = doc.status;
+});
+
+AppointmentSchema.post('save', function(doc) {
+  doc.$locals.previousStatus = doc.status;
+  delete doc.$locals.statusActor;
+  delete doc.$locals.statusReason;
+});
+
+// Changes status, recording who made the change; throws a 409 for moves the workflow does not allow
+AppointmentSchema.methods.transitionTo = function(this: IAppointment, status: AppointmentStatus, actor: StatusActor, reason?: string) {
+  if (!this.isNew) {
+    if (status === this.status) return;
+    if (!canTransitionStatus(this.status, status)) {
+      throw createError(`Cannot change an appointment from ${this.status} to ${status}`, 409);
+    }
+  }
+
+  this.status = status;
+  this.$locals.statusActor = actor;
+  this.$locals.statusReason = reason;
+};
+
+// Anonymised appointments keep their placeholder number
+AppointmentSchema.pre('validate', function(next) {
+  if (!this.anonymisedAt) storePhoneAsE164(this);
+  next();
+});
+
+// Enforce the status workflow and keep the transition history, however the status was changed
+AppointmentSchema.pre('save', function(next) {
+  const changedBy = (this.$locals.statusActor as StatusActor | undefined) || { kind: 'system' };
+  const reason = this.$locals.statusReason as string | undefined;
+
+  if (this.isNew) {
+    this.statusHistory.push({ to: this.status, changedAt: new Date(), changedBy, reason });
+  } else if (this.isModified('status')) {
+    const from = this.$locals.previousStatus as AppointmentStatus | undefined;
+    if (from && !canTransitionStatus(from, this.status)) {
+      return next(createError(`Cannot change an appointment from ${from} to ${this.status}`, 409));
+    }
+    this.statusHistory.push({ from, to: this.status, changedAt: new Date(), changedBy, reason });
+  }
+
+  next();
+});
+
 // Pre-save middleware
 AppointmentSchema.pre('save', function(next) {
   // Auto-set confirmedDate when status changes to 'confirmed'
@@ -204,6 +505,12 @@ AppointmentSchema.pre('save', function(next) {
     this.confirmedTime = this.preferredTime;
   }
   
+  // A moved appointment needs a fresh reminder
+  if (!this.isNew && (this.isModified('confirmedDate') || this.isModified('confirmedTime')) && this.reminderSent) {
+    this.reminderSent = false;
+    this.reminderSentAt = undefined;
+  }
+  
   // Auto-set cancelledAt when status changes to 'cancelled'
   if (this.isModified('status') && this.status === 'cancelled' && !this.cancelledAt) {
     this.cancelledAt = new Date();
@@ -214,6 +521,22 @@ AppointmentSchema.pre('save', function(next) {
     this.actualDate = this.confirmedDate || this.preferredDate;
     this.actualTime = this.confirmedTime || this.preferredTime;
   }
+  if (this.isModified('status') && this.status === 'completed' && !this.completedAt) {
+    this.completedAt = new Date();
+  }
+
+  // Keep the stored start and end instants in step with the scheduled slot
+  const slotFields = ['confirmedDate', 'confirmedTime', 'preferredDate', 'preferredTime', 'duration'];
+  if (this.isNew || !this.startsAt || slotFields.some(field => this.isModified(field))) {
+    const startsAt = getSlotStart(this.confirmedDate || this.preferredDate, this.confirmedTime || this.preferredTime);
+    this.startsAt = startsAt || undefined;
+    this.endsAt = startsAt ? new Date(startsAt.getTime() + this.duration * 60 * 1000) : undefined;
+  }
+  
+  // Calendar apps only apply an update to an event with a higher sequence number
+  if (!this.isNew && (slotFields.some(field => this.isModified(field)) || (this.isModified('status') && this.status === 'cancelled'))) {
+    this.calendarSequence = (this.calendarSequence || 0) + 1;
+  }
   
   next();
 });
@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One per calendar day; held while a booking for that day is checked and saved
+export interface IBookingLock extends Document {
+  dateKey: string; // YYYY-MM-DD
+  lockedBy?: string;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingLockSchema = new Schema<IBookingLock>({
+  dateKey: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+export const BookingLock = mongoose.model<IBookingLock>('BookingLock', BookingLockSchema);
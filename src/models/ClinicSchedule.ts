@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface IWeeklyHours {
+  dayOfWeek: number; // 0 = Sunday
+  isOpen: boolean;
+  openTime: string; // "HH:mm"
+  closeTime: string; // "HH:mm"
+}
+
+export interface IScheduleBreak {
+  label?: string;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[]; // empty = every day
+}
+
+export interface IClosure {
+  _id: Types.ObjectId;
+  date: Date;
+  endDate?: Date; // inclusive, for multi-day closures
+  startTime?: string; // partial-day closure when both times are set
+  endTime?: string;
+  reason: string;
+}
+
+export interface IClinicSchedule extends Document {
+  key: string;
+  slotLength: number; // in minutes
+  weeklyHours: IWeeklyHours[];
+  breaks: IScheduleBreak[];
+  closures: Types.DocumentArray<IClosure & Types.Subdocument>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WeeklyHoursSchema = new Schema<IWeeklyHours>({
+  dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+  isOpen: { type: Boolean, default: true },
+  openTime: { type: String, match: [CLOCK_TIME_PATTERN, 'Opening time must be in HH:mm format'], default: '09:00' },
+  closeTime: { type: String, match: [CLOCK_TIME_PATTERN, 'Closing time must be in HH:mm format'], default: '19:00' }
+}, { _id: false });
+
+const BreakSchema = new Schema<IScheduleBreak>({
+  label: { type: String, trim: true, maxlength: 100 },
+  startTime: { type: String, required: true, match: [CLOCK_TIME_PATTERN, 'Break start must be in HH:mm format'] },
+  endTime: { type: String, required: true, match: [CLOCK_TIME_PATTERN, 'Break end must be in HH:mm format'] },
+  daysOfWeek: [{ type: Number, min: 0, max: 6 }]
+}, { _id: false });
+
+const ClosureSchema = new Schema<IClosure>({
+  date: { type: Date, required: [true, 'Closure date is required'] },
+  endDate: { type: Date },
+  startTime: { type: String, match: [CLOCK_TIME_PATTERN, 'Closure start must be in HH:mm format'] },
+  endTime: { type: String, match: [CLOCK_TIME_PATTERN, 'Closure end must be in HH:mm format'] },
+  reason: {
+    type: String,
+    required: [true, 'Closure reason is required'],
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  }
+});
+
+const ClinicScheduleSchema = new Schema<IClinicSchedule>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    default: 'default'
+  },
+  slotLength: {
+    type: Number,
+    default: 60,
+    min: [15, 'Slot length must be at least 15 minutes'],
+    max: [240, 'Slot length cannot exceed 4 hours']
+  },
+  weeklyHours: {
+    type: [WeeklyHoursSchema],
+    validate: {
+      validator: (value: IWeeklyHours[]) => new Set(value.map(day => day.dayOfWeek)).size === value.length,
+      message: 'Each day of the week can only appear once'
+    }
+  },
+  breaks: [BreakSchema],
+  closures: [ClosureSchema]
+}, {
+  timestamps: true
+});
+
+ClinicScheduleSchema.index({ 'closures.date': 1 });
+
+// Mirrors the slots the clinic offered before the schedule became configurable:
+// Monday to Saturday 9 AM - 7 PM with a lunch break, closed on Sunday
+export const DEFAULT_CLINIC_SCHEDULE = {
+  key: 'default',
+  slotLength: 60,
+  weeklyHours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+    dayOfWeek,
+    isOpen: dayOfWeek !== 0,
+    openTime: '09:00',
+    closeTime: '19:00'
+  })),
+  breaks: [{ label: 'Lunch', startTime: '13:00', endTime: '14:00', daysOfWeek: [] }],
+  closures: []
+};
+
+export const ClinicSchedule = mongoose.model<IClinicSchedule>('ClinicSchedule', ClinicScheduleSchema);
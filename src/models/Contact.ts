@@ -1,20 +1,140 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { getContactDueAt } from '../utils/contactSla.js';
+
+export const CONTACT_STATUSES = ['new', 'read', 'replied', 'archived'] as const;
+export type ContactStatus = typeof CONTACT_STATUSES[number];
+
+export const CONTACT_SOURCES = ['form', 'email'] as const;
+export type ContactSource = typeof CONTACT_SOURCES[number];
+
+export const CONTACT_MESSAGE_DIRECTIONS = ['inbound', 'outbound'] as const;
+export type ContactMessageDirection = typeof CONTACT_MESSAGE_DIRECTIONS[number];
+
+// Attachment contents are not stored; patients are asked to bring photos and reports to their appointment
+export interface IContactAttachment {
+  filename?: string;
+  contentType: string;
+  size: number; // in bytes
+}
+
+// One email in the conversation after the original form message
+export interface IContactMessage {
+  _id: Types.ObjectId;
+  direction: ContactMessageDirection;
+  from?: string; // sender of an inbound email
+  subject: string;
+  body: string;
+  attachments: IContactAttachment[];
+  messageId?: string; // RFC 5322 Message-ID, e.g. "<abc@mail.example.com>"
+  inReplyTo?: string;
+  references: string[];
+  sentBy?: Types.ObjectId; // staff user who wrote an outbound reply
+  sentByName?: string;
+  template?: Types.ObjectId; // reply template an outbound reply was written from
+  templateName?: string;
+  sentAt: Date;
+}
 
 export interface IContact extends Document {
   name: string;
   email: string;
+  patient?: Types.ObjectId;
   subject: string;
   message: string;
-  status: 'new' | 'read' | 'replied' | 'archived';
+  source: ContactSource; // 'email' for mail that did not answer an existing thread
+  attachments: IContactAttachment[]; // of the original email, for contacts that started by email
+  messageId?: string; // Message-ID of the acknowledgement email, or of the original email, which starts the thread
+  thread: Types.DocumentArray<IContactMessage & Types.Subdocument>; // replies and follow-ups, oldest first
+  status: ContactStatus;
   priority: 'low' | 'medium' | 'high';
   tags: string[];
   assignedTo?: string;
+  dueAt?: Date; // reply target for the priority, from the original message or the latest inbound email
+  slaAlertedAt?: Date; // staff were emailed that dueAt has passed; cleared when dueAt changes
   repliedAt?: Date;
   archivedAt?: Date;
+  anonymisedAt?: Date; // personal details removed by an erasure request
+  referenceKey?: string; // stored copy of referenceId, so a reply's subject reference is found by index
   createdAt: Date;
   updatedAt: Date;
+  // Virtuals
+  referenceId?: string;
 }
 
+const ContactAttachmentSchema = new Schema<IContactAttachment>({
+  filename: {
+    type: String,
+    trim: true
+  },
+  contentType: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  size: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const ContactMessageSchema = new Schema<IContactMessage>({
+  direction: {
+    type: String,
+    enum: CONTACT_MESSAGE_DIRECTIONS,
+    required: true
+  },
+  from: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  subject: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [300, 'Subject cannot exceed 300 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [10000, 'Message cannot exceed 10000 characters']
+  },
+  attachments: [ContactAttachmentSchema],
+  messageId: {
+    type: String,
+    trim: true
+  },
+  inReplyTo: {
+    type: String,
+    trim: true
+  },
+  references: [{
+    type: String,
+    trim: true
+  }],
+  sentBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  sentByName: {
+    type: String,
+    trim: true
+  },
+  template: {
+    type: Schema.Types.ObjectId,
+    ref: 'ReplyTemplate'
+  },
+  templateName: {
+    type: String,
+    trim: true
+  },
+  sentAt: {
+    type: Date,
+    required: true
+  }
+});
+
 const ContactSchema = new Schema<IContact>({
   name: {
     type: String,
@@ -30,6 +150,10 @@ const ContactSchema = new Schema<IContact>({
     lowercase: true,
     match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
   },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
   subject: {
     type: String,
     required: [true, 'Subject is required'],
@@ -44,9 +168,20 @@ const ContactSchema = new Schema<IContact>({
     minlength: [10, 'Message must be at least 10 characters'],
     maxlength: [2000, 'Message cannot exceed 2000 characters']
   },
+  source: {
+    type: String,
+    enum: CONTACT_SOURCES,
+    default: 'form'
+  },
+  attachments: [ContactAttachmentSchema],
+  messageId: {
+    type: String,
+    trim: true
+  },
+  thread: [ContactMessageSchema],
   status: {
     type: String,
-    enum: ['new', 'read', 'replied', 'archived'],
+    enum: CONTACT_STATUSES,
     default: 'new'
   },
   priority: {
@@ -62,11 +197,23 @@ const ContactSchema = new Schema<IContact>({
     type: String,
     trim: true
   },
+  dueAt: {
+    type: Date
+  },
+  slaAlertedAt: {
+    type: Date
+  },
   repliedAt: {
     type: Date
   },
   archivedAt: {
     type: Date
+  },
+  anonymisedAt: {
+    type: Date
+  },
+  referenceKey: {
+    type: String
   }
 }, {
   timestamps: true,
@@ -76,11 +223,21 @@ const ContactSchema = new Schema<IContact>({
 
 // Indexes for better query performance
 ContactSchema.index({ email: 1 });
+ContactSchema.index({ patient: 1 });
 ContactSchema.index({ status: 1 });
 ContactSchema.index({ priority: 1 });
 ContactSchema.index({ createdAt: -1 });
+ContactSchema.index({ status: 1, dueAt: 1 });
+ContactSchema.index({ messageId: 1 });
+ContactSchema.index({ 'thread.messageId': 1 });
+ContactSchema.index({ referenceKey: 1 });
 ContactSchema.index({ subject: 'text', message: 'text' });
 
+// Short reference added to reply subjects, so a patient's answer finds its thread even without Message-ID headers
+ContactSchema.virtual('referenceId').get(function(this: IContact) {
+  return `MSG-${(this._id as any).toString().slice(-8).toUpperCase()}`;
+});
+
 // Virtual for formatted date
 ContactSchema.virtual('formattedDate').get(function() {
   return this.createdAt.toLocaleDateString('en-US', {
@@ -94,6 +251,10 @@ ContactSchema.virtual('formattedDate').get(function() {
 
 // Pre-save middleware
 ContactSchema.pre('save', function(next) {
+  if (!this.referenceKey) {
+    this.referenceKey = this.get('referenceId');
+  }
+
   // Auto-set repliedAt when status changes to 'replied'
   if (this.isModified('status') && this.status === 'replied' && !this.repliedAt) {
     this.repliedAt = new Date();
@@ -103,6 +264,17 @@ ContactSchema.pre('save', function(next) {
   if (this.isModified('status') && this.status === 'archived' && !this.archivedAt) {
     this.archivedAt = new Date();
   }
+
+  // The reply clock restarts when the patient writes again, and the target follows the priority
+  if (this.isNew || !this.dueAt || this.isModified('priority') || this.isModified('thread')) {
+    const inbound = this.thread.filter(message => message.direction === 'inbound');
+    const waitingSince = inbound.length > 0 ? inbound[inbound.length - 1].sentAt : this.createdAt || new Date();
+    const dueAt = getContactDueAt(this.priority, waitingSince);
+    if (this.dueAt?.getTime() !== dueAt.getTime()) {
+      this.dueAt = dueAt;
+      this.slaAlertedAt = undefined;
+    }
+  }
   
   next();
 });
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const EMAIL_LOG_STATUSES = ['sent', 'failed'] as const;
+export type EmailLogStatus = typeof EMAIL_LOG_STATUSES[number];
+
+export interface IEmailLog extends Document {
+  kind: string; // which EmailService method sent it, e.g. 'appointment-confirmation'
+  to: string;
+  subject: string;
+  status: EmailLogStatus;
+  error?: string;
+  messageId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailLogSchema = new Schema<IEmailLog>({
+  kind: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  to: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true
+  },
+  subject: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: EMAIL_LOG_STATUSES,
+    required: true
+  },
+  error: {
+    type: String,
+    trim: true
+  },
+  messageId: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+EmailLogSchema.index({ to: 1, createdAt: -1 });
+EmailLogSchema.index({ kind: 1, createdAt: -1 });
+
+export const EmailLog = mongoose.model<IEmailLog>('EmailLog', EmailLogSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const FEEDBACK_ASPECTS = ['doctor', 'waitTime', 'facility'] as const;
+export type FeedbackAspect = typeof FEEDBACK_ASPECTS[number];
+
+export interface IFeedback extends Document {
+  appointment: Types.ObjectId;
+  practitioner?: Types.ObjectId;
+  treatment?: Types.ObjectId;
+  treatmentType: string;
+  rating: number; // overall, 1-5
+  scores: Partial<Record<FeedbackAspect, number>>; // each 1-5; aspects the patient skipped are left out
+  comments?: string;
+  anonymisedAt?: Date; // comments removed when the appointment was anonymised
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scoreField = (label: string) => ({
+  type: Number,
+  min: [1, `${label} score must be between 1 and 5`],
+  max: [5, `${label} score must be between 1 and 5`]
+});
+
+const FeedbackSchema = new Schema<IFeedback>({
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment',
+    required: [true, 'Appointment is required']
+  },
+  practitioner: {
+    type: Schema.Types.ObjectId,
+    ref: 'Practitioner'
+  },
+  treatment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Treatment'
+  },
+  treatmentType: {
+    type: String,
+    required: [true, 'Treatment type is required'],
+    trim: true
+  },
+  rating: {
+    type: Number,
+    required: [true, 'Rating is required'],
+    min: [1, 'Rating must be between 1 and 5'],
+    max: [5, 'Rating must be between 1 and 5']
+  },
+  scores: {
+    doctor: scoreField('Doctor'),
+    waitTime: scoreField('Wait time'),
+    facility: scoreField('Facility')
+  },
+  comments: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Comments cannot exceed 2000 characters']
+  },
+  anonymisedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// One response per appointment
+FeedbackSchema.index({ appointment: 1 }, { unique: true });
+FeedbackSchema.index({ practitioner: 1, createdAt: -1 });
+FeedbackSchema.index({ treatmentType: 1, createdAt: -1 });
+FeedbackSchema.index({ createdAt: -1 });
+
+export const Feedback = mongoose.model<IFeedback>('Feedback', FeedbackSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IJobLock extends Document {
+  name: string;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastRunAt?: Date;
+  lastResult?: Record<string, unknown>;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobLockSchema = new Schema<IJobLock>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastRunAt: {
+    type: Date
+  },
+  lastResult: {
+    type: Schema.Types.Mixed
+  },
+  lastError: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+export const JobLock = mongoose.model<IJobLock>('JobLock', JobLockSchema);
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IPatient extends Document {
+  name: string;
+  email: string; // normalized with normalizeEmail
+  phone?: string; // normalized with normalizePhone
+  otherEmails: string[]; // addresses of patients merged into this one
+  otherPhones: string[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PatientSchema = new Schema<IPatient>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    minlength: [2, 'Name must be at least 2 characters'],
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,})+$/, 'Please enter a valid email']
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  otherEmails: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  otherPhones: [{
+    type: String,
+    trim: true
+  }],
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Notes cannot exceed 2000 characters']
+  }
+}, {
+  timestamps: true
+});
+
+PatientSchema.index({ email: 1 }, { unique: true });
+PatientSchema.index({ phone: 1 });
+PatientSchema.index({ otherEmails: 1 });
+PatientSchema.index({ otherPhones: 1 });
+PatientSchema.index({ name: 'text', email: 'text' });
+
+export const Patient = mongoose.model<IPatient>('Patient', PatientSchema);
@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const PATIENT_MERGE_STATUSES = ['merged', 'undone'] as const;
+export type PatientMergeStatus = typeof PATIENT_MERGE_STATUSES[number];
+
+// Patient fields as they were before the merge, so an undo can put them back
+export interface IPatientSnapshot {
+  _id: Types.ObjectId;
+  name: string;
+  email: string;
+  phone?: string;
+  otherEmails: string[];
+  otherPhones: string[];
+  notes?: string;
+  createdAt: Date;
+}
+
+export interface IPatientMerge extends Document {
+  survivor: Types.ObjectId;
+  survivorBefore: IPatientSnapshot;
+  merged: IPatientSnapshot;
+  movedAppointments: Types.ObjectId[];
+  movedContacts: Types.ObjectId[];
+  movedSubscribers: Types.ObjectId[];
+  score?: number; // duplicate score when the merge was made
+  status: PatientMergeStatus;
+  mergedBy?: Types.ObjectId;
+  undoneAt?: Date;
+  undoneBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PatientSnapshotSchema = new Schema<IPatientSnapshot>({
+  _id: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  email: {
+    type: String,
+    required: true
+  },
+  phone: {
+    type: String
+  },
+  otherEmails: [{
+    type: String
+  }],
+  otherPhones: [{
+    type: String
+  }],
+  notes: {
+    type: String
+  },
+  createdAt: {
+    type: Date
+  }
+}, { _id: false });
+
+const PatientMergeSchema = new Schema<IPatientMerge>({
+  survivor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  survivorBefore: {
+    type: PatientSnapshotSchema,
+    required: true
+  },
+  merged: {
+    type: PatientSnapshotSchema,
+    required: true
+  },
+  movedAppointments: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  }],
+  movedContacts: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Contact'
+  }],
+  movedSubscribers: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Subscriber'
+  }],
+  score: {
+    type: Number,
+    min: 0,
+    max: 1
+  },
+  status: {
+    type: String,
+    enum: PATIENT_MERGE_STATUSES,
+    default: 'merged'
+  },
+  mergedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  undoneAt: {
+    type: Date
+  },
+  undoneBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+PatientMergeSchema.index({ survivor: 1, createdAt: -1 });
+PatientMergeSchema.index({ 'merged._id': 1 });
+PatientMergeSchema.index({ status: 1, createdAt: -1 });
+
+export const PatientMerge = mongoose.model<IPatientMerge>('PatientMerge', PatientMergeSchema);
@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CLOCK_TIME_PATTERN } from './ClinicSchedule.js';
+
+export interface IWorkingHours {
+  dayOfWeek: number; // 0 = Sunday
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm"
+}
+
+export interface ILeave {
+  _id: Types.ObjectId;
+  date: Date;
+  endDate?: Date; // inclusive, for multi-day leave
+  reason?: string;
+}
+
+export interface IPractitioner extends Document {
+  name: string;
+  title?: string;
+  email?: string;
+  phone?: string;
+  user?: Types.ObjectId; // staff login, when the practitioner has one
+  treatments: Types.ObjectId[];
+  workingHours: IWorkingHours[]; // days without an entry are days off
+  leave: Types.DocumentArray<ILeave & Types.Subdocument>;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkingHoursSchema = new Schema<IWorkingHours>({
+  dayOfWeek: { type: Number, required: true, min: 0, max: 6 },
+  startTime: { type: String, required: true, match: [CLOCK_TIME_PATTERN, 'Start time must be in HH:mm format'] },
+  endTime: { type: String, required: true, match: [CLOCK_TIME_PATTERN, 'End time must be in HH:mm format'] }
+}, { _id: false });
+
+const LeaveSchema = new Schema<ILeave>({
+  date: { type: Date, required: [true, 'Leave date is required'] },
+  endDate: { type: Date },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  }
+});
+
+const PractitionerSchema = new Schema<IPractitioner>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  title: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Title cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  phone: {
+    type: String,
+    trim: true,
+    match: [/^[\+]?[\d\s\-\(\)]+$/, 'Please enter a valid phone number']
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  treatments: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Treatment'
+  }],
+  workingHours: [WorkingHoursSchema],
+  leave: [LeaveSchema],
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+PractitionerSchema.index({ isActive: 1, treatments: 1 });
+PractitionerSchema.index({ 'leave.date': 1 });
+
+export const Practitioner = mongoose.model<IPractitioner>('Practitioner', PractitionerSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const PRIVACY_REQUEST_TYPES = ['export', 'erasure'] as const;
+export type PrivacyRequestType = typeof PRIVACY_REQUEST_TYPES[number];
+
+export const PRIVACY_REQUEST_STATUSES = ['completed', 'failed'] as const;
+export type PrivacyRequestStatus = typeof PRIVACY_REQUEST_STATUSES[number];
+
+// Records touched per collection, e.g. { appointments: 3, subscribers: 1 }
+export type PrivacyRecordCounts = Record<string, number>;
+
+// The log outlives an erasure, so it keeps a hash and a masked form of the identifiers rather than the identifiers themselves
+export interface IPrivacyRequest extends Document {
+  type: PrivacyRequestType;
+  subjectHashes: string[]; // sha256 of the normalized email and phone, to find earlier requests for the same person
+  subjectMasked: string; // e.g. "p****a@gmail.com, ******3210"
+  format?: 'json' | 'csv';
+  dryRun: boolean;
+  status: PrivacyRequestStatus;
+  records: PrivacyRecordCounts; // found for the subject; exported, or deleted and anonymised
+  deleted: PrivacyRecordCounts;
+  anonymised: PrivacyRecordCounts;
+  reason?: string;
+  error?: string;
+  requestedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PrivacyRequestSchema = new Schema<IPrivacyRequest>({
+  type: {
+    type: String,
+    enum: PRIVACY_REQUEST_TYPES,
+    required: true
+  },
+  subjectHashes: [{
+    type: String
+  }],
+  subjectMasked: {
+    type: String,
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['json', 'csv']
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: PRIVACY_REQUEST_STATUSES,
+    required: true
+  },
+  records: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  deleted: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  anonymised: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  error: {
+    type: String
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+PrivacyRequestSchema.index({ createdAt: -1 });
+PrivacyRequestSchema.index({ subjectHashes: 1, createdAt: -1 });
+PrivacyRequestSchema.index({ type: 1, createdAt: -1 });
+
+export const PrivacyRequest = mongoose.model<IPrivacyRequest>('PrivacyRequest', PrivacyRequestSchema);
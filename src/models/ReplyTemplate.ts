@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const REPLY_TEMPLATE_TARGETS = ['contact', 'appointment'] as const;
+export type ReplyTemplateTarget = typeof REPLY_TEMPLATE_TARGETS[number];
+
+// Placeholders a template may use, written as {{name}}; each is filled from the record the template is sent about
+const COMMON_VARIABLES = ['name', 'firstName', 'email', 'referenceId', 'staffName', 'clinicName', 'clinicPhone', 'clinicEmail', 'clinicAddress'];
+
+export const REPLY_TEMPLATE_VARIABLES: Record<ReplyTemplateTarget, readonly string[]> = {
+  contact: [...COMMON_VARIABLES, 'subject'],
+  appointment: [...COMMON_VARIABLES, 'treatmentType', 'appointmentDate', 'appointmentTime', 'practitionerName', 'status', 'manageUrl'],
+};
+
+export interface IReplyTemplate extends Document {
+  name: string;
+  description?: string;
+  target: ReplyTemplateTarget;
+  subject?: string; // appointment messages only; contact replies keep the thread's "Re:" subject
+  body: string;
+  isActive: boolean;
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReplyTemplateSchema = new Schema<IReplyTemplate>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  target: {
+    type: String,
+    enum: REPLY_TEMPLATE_TARGETS,
+    required: [true, 'Target is required']
+  },
+  subject: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Subject cannot exceed 200 characters']
+  },
+  body: {
+    type: String,
+    required: [true, 'Body is required'],
+    trim: true,
+    maxlength: [10000, 'Body cannot exceed 10000 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+ReplyTemplateSchema.index({ name: 1 }, { unique: true });
+ReplyTemplateSchema.index({ target: 1, isActive: 1, name: 1 });
+
+export const ReplyTemplate = mongoose.model<IReplyTemplate>('ReplyTemplate', ReplyTemplateSchema);
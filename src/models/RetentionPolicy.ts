@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export const RETENTION_TARGETS = ['contacts', 'appointments', 'subscribers'] as const;
+export type RetentionTarget = typeof RETENTION_TARGETS[number];
+
+export const RETENTION_ACTIONS = ['archive', 'anonymise', 'delete'] as const;
+export type RetentionAction = typeof RETENTION_ACTIONS[number];
+
+export interface IRetentionRun {
+  ranAt: Date;
+  matched: number;
+  affected: number;
+  error?: string;
+}
+
+export interface IRetentionPolicy extends Document {
+  name: string;
+  description?: string;
+  target: RetentionTarget;
+  action: RetentionAction;
+  dateField: string; // age is measured from this field, e.g. 'repliedAt'
+  afterDays: number;
+  statuses: string[]; // only records in these statuses; empty for all
+  enabled: boolean; // disabled policies can still be previewed
+  lastRun?: IRetentionRun;
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RetentionRunSchema = new Schema<IRetentionRun>({
+  ranAt: {
+    type: Date,
+    required: true
+  },
+  matched: {
+    type: Number,
+    default: 0
+  },
+  affected: {
+    type: Number,
+    default: 0
+  },
+  error: {
+    type: String
+  }
+}, { _id: false });
+
+const RetentionPolicySchema = new Schema<IRetentionPolicy>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  target: {
+    type: String,
+    enum: RETENTION_TARGETS,
+    required: [true, 'Target is required']
+  },
+  action: {
+    type: String,
+    enum: RETENTION_ACTIONS,
+    required: [true, 'Action is required']
+  },
+  dateField: {
+    type: String,
+    required: [true, 'Date field is required'],
+    trim: true
+  },
+  afterDays: {
+    type: Number,
+    required: [true, 'afterDays is required'],
+    min: [1, 'afterDays must be at least 1']
+  },
+  statuses: [{
+    type: String,
+    trim: true
+  }],
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  lastRun: {
+    type: RetentionRunSchema
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+RetentionPolicySchema.index({ name: 1 }, { unique: true });
+RetentionPolicySchema.index({ enabled: 1 });
+
+export const RetentionPolicy = mongoose.model<IRetentionPolicy>('RetentionPolicy', RetentionPolicySchema);
@@ -1,8 +1,10 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, Types } from 'mongoose';
 
 export interface ISubscriber extends Document {
   email: string;
+  patient?: Types.ObjectId;
   source?: string; // e.g., 'footer', 'landing', 'contact'
+  confirmedAt?: Date | null; // null until the subscriber follows the link in the confirmation email
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,16 +18,27 @@ const SubscriberSchema = new Schema<ISubscriber>({
     unique: true,
     match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,})+$/, 'Please enter a valid email']
   },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  },
   source: {
     type: String,
     trim: true,
     maxlength: [50, 'Source cannot exceed 50 characters']
+  },
+  // Stored as null rather than left out, so sign-ups from before confirmation existed can be told apart
+  confirmedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true,
 });
 
 SubscriberSchema.index({ email: 1 }, { unique: true });
+SubscriberSchema.index({ patient: 1 });
+SubscriberSchema.index({ confirmedAt: 1, createdAt: 1 });
 
 export const Subscriber = mongoose.model<ISubscriber>('Subscriber', SubscriberSchema);
 
@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const TREATMENT_CATEGORIES = ['skin', 'hair', 'laser', 'general'] as const;
+export type TreatmentCategory = typeof TREATMENT_CATEGORIES[number];
+
+export interface ITreatment extends Document {
+  name: string;
+  slug: string;
+  category: TreatmentCategory;
+  description?: string;
+  defaultDuration: number; // in minutes
+  priceRange?: {
+    min: number;
+    max: number;
+    currency: string;
+  };
+  preparationInstructions?: string;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TreatmentSchema = new Schema<ITreatment>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    unique: true,
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  slug: {
+    type: String,
+    required: [true, 'Slug is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z0-9-]+$/, 'Slug can only contain lowercase letters, numbers and dashes']
+  },
+  category: {
+    type: String,
+    enum: TREATMENT_CATEGORIES,
+    required: [true, 'Category is required']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  defaultDuration: {
+    type: Number,
+    default: 60,
+    min: [15, 'Duration must be at least 15 minutes'],
+    max: [480, 'Duration cannot exceed 8 hours']
+  },
+  priceRange: {
+    type: new Schema({
+      min: { type: Number, required: true, min: 0 },
+      max: { type: Number, required: true, min: 0 },
+      currency: { type: String, default: 'INR', uppercase: true, trim: true }
+    }, { _id: false }),
+    validate: {
+      validator: (value?: { min: number; max: number }) => !value || value.min <= value.max,
+      message: 'Minimum price cannot exceed maximum price'
+    }
+  },
+  preparationInstructions: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Preparation instructions cannot exceed 2000 characters']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  sortOrder: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+TreatmentSchema.index({ isActive: 1, sortOrder: 1 });
+TreatmentSchema.index({ category: 1 });
+
+// Treatments the clinic offered before the catalog became editable
+export const DEFAULT_TREATMENTS: Array<Pick<ITreatment, 'name' | 'slug' | 'category' | 'defaultDuration'>> = [
+  { name: 'Acne Treatment', slug: 'acne-treatment', category: 'skin', defaultDuration: 60 },
+  { name: 'Anti-Aging Treatment', slug: 'anti-aging-treatment', category: 'skin', defaultDuration: 60 },
+  { name: 'Chemical Peels', slug: 'chemical-peels', category: 'skin', defaultDuration: 60 },
+  { name: 'Pigmentation Treatment', slug: 'pigmentation-treatment', category: 'skin', defaultDuration: 60 },
+  { name: 'Hair Transplant', slug: 'hair-transplant', category: 'hair', defaultDuration: 120 },
+  { name: 'PRP Hair Therapy', slug: 'prp-hair-therapy', category: 'hair', defaultDuration: 60 },
+  { name: 'Hair Loss Treatment', slug: 'hair-loss-treatment', category: 'hair', defaultDuration: 60 },
+  { name: 'Scalp Treatment', slug: 'scalp-treatment', category: 'hair', defaultDuration: 60 },
+  { name: 'Laser Hair Removal', slug: 'laser-hair-removal', category: 'laser', defaultDuration: 60 },
+  { name: 'Laser Skin Resurfacing', slug: 'laser-skin-resurfacing', category: 'laser', defaultDuration: 60 },
+  { name: 'Laser Tattoo Removal', slug: 'laser-tattoo-removal', category: 'laser', defaultDuration: 60 },
+  { name: 'Laser Pigmentation Removal', slug: 'laser-pigmentation-removal', category: 'laser', defaultDuration: 60 },
+  { name: 'General Consultation', slug: 'general-consultation', category: 'general', defaultDuration: 60 },
+];
+
+export const Treatment = mongoose.model<ITreatment>('Treatment', TreatmentSchema);
@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { storePhoneAsE164 } from '../utils/contactDetails.js';
+
+export const TREATMENT_PLAN_STATUSES = ['active', 'completed', 'cancelled'] as const;
+export type TreatmentPlanStatus = typeof TREATMENT_PLAN_STATUSES[number];
+
+export interface ITreatmentPlan extends Document {
+  name: string;
+  email: string;
+  phone: string; // E.164, e.g. +919876543210
+  phoneRaw?: string; // as the patient typed it
+  treatmentType: string;
+  treatment?: Types.ObjectId;
+  practitioner?: Types.ObjectId; // preferred practitioner for every session
+  totalSessions: number;
+  intervalDays: number;
+  startDate: Date;
+  time: string;
+  status: TreatmentPlanStatus;
+  notes?: string;
+  createdBy?: Types.ObjectId;
+  cancelledAt?: Date;
+  cancelledReason?: string;
+  anonymisedAt?: Date; // personal details removed by an erasure request
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TreatmentPlanSchema = new Schema<ITreatmentPlan>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    minlength: [2, 'Name must be at least 2 characters'],
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required'],
+    trim: true,
+    match: [/^[\+]?[\d\s\-\(\)]+$/, 'Please enter a valid phone number']
+  },
+  phoneRaw: {
+    type: String,
+    trim: true
+  },
+  treatmentType: {
+    type: String,
+    required: [true, 'Treatment type is required'],
+    trim: true,
+    maxlength: [100, 'Treatment type cannot exceed 100 characters']
+  },
+  treatment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Treatment'
+  },
+  practitioner: {
+    type: Schema.Types.ObjectId,
+    ref: 'Practitioner'
+  },
+  totalSessions: {
+    type: Number,
+    required: [true, 'Number of sessions is required'],
+    min: [2, 'A plan needs at least 2 sessions'],
+    max: [12, 'A plan cannot have more than 12 sessions']
+  },
+  intervalDays: {
+    type: Number,
+    required: [true, 'Interval is required'],
+    min: [1, 'Interval must be at least 1 day'],
+    max: [90, 'Interval cannot exceed 90 days']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  time: {
+    type: String,
+    required: [true, 'Time is required']
+  },
+  status: {
+    type: String,
+    enum: TREATMENT_PLAN_STATUSES,
+    default: 'active'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelledAt: {
+    type: Date
+  },
+  cancelledReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
+  },
+  anonymisedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Anonymised plans keep their placeholder number
+TreatmentPlanSchema.pre('validate', function(next) {
+  if (!this.anonymisedAt) storePhoneAsE164(this);
+  next();
+});
+
+TreatmentPlanSchema.index({ email: 1 });
+TreatmentPlanSchema.index({ phone: 1 });
+TreatmentPlanSchema.index({ status: 1, createdAt: -1 });
+
+export const TreatmentPlan = mongoose.model<ITreatmentPlan>('TreatmentPlan', TreatmentPlanSchema);
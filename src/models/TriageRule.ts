@@ -0,0 +1,148 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CONTACT_SOURCES } from './Contact.js';
+
+export const TRIAGE_TARGETS = ['contact', 'appointment'] as const;
+export type TriageTarget = typeof TRIAGE_TARGETS[number];
+
+export const TRIAGE_PRIORITIES = ['low', 'medium', 'high'] as const;
+export type TriagePriority = typeof TRIAGE_PRIORITIES[number];
+
+// How the record was created; appointments booked from the website are 'booking'
+export const TRIAGE_SOURCES: Record<TriageTarget, readonly string[]> = {
+  contact: CONTACT_SOURCES,
+  appointment: ['booking', 'waitlist', 'treatment-plan'],
+};
+
+// Every condition that is set must hold for the rule to match
+export interface ITriageConditions {
+  keywords: string[]; // any of these words or phrases in the subject or message
+  treatmentTypes: string[]; // appointments only
+  sources: string[];
+  minHoursUntilStart?: number; // appointments only; hours from now until the requested slot
+  maxHoursUntilStart?: number;
+}
+
+export interface ITriageActions {
+  priority?: TriagePriority;
+  tags: string[];
+  assignedTo?: string;
+  notifyEmails: string[]; // staff addresses emailed when the rule matches
+}
+
+export interface ITriageRule extends Document {
+  name: string;
+  description?: string;
+  target: TriageTarget;
+  order: number; // rules are evaluated lowest first
+  enabled: boolean;
+  conditions: ITriageConditions;
+  actions: ITriageActions;
+  matchCount: number;
+  lastMatchedAt?: Date;
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TriageConditionsSchema = new Schema<ITriageConditions>({
+  keywords: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Keywords cannot exceed 100 characters']
+  }],
+  treatmentTypes: [{
+    type: String,
+    trim: true
+  }],
+  sources: [{
+    type: String,
+    trim: true
+  }],
+  minHoursUntilStart: {
+    type: Number,
+    min: [0, 'minHoursUntilStart cannot be negative']
+  },
+  maxHoursUntilStart: {
+    type: Number,
+    min: [0, 'maxHoursUntilStart cannot be negative']
+  }
+}, { _id: false });
+
+const TriageActionsSchema = new Schema<ITriageActions>({
+  priority: {
+    type: String,
+    enum: TRIAGE_PRIORITIES
+  },
+  tags: [{
+    type: String,
+    trim: true
+  }],
+  assignedTo: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Assigned to cannot exceed 100 characters']
+  },
+  notifyEmails: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }]
+}, { _id: false });
+
+const TriageRuleSchema = new Schema<ITriageRule>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  target: {
+    type: String,
+    enum: TRIAGE_TARGETS,
+    required: [true, 'Target is required']
+  },
+  order: {
+    type: Number,
+    default: 0
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  conditions: {
+    type: TriageConditionsSchema,
+    default: () => ({})
+  },
+  actions: {
+    type: TriageActionsSchema,
+    default: () => ({})
+  },
+  matchCount: {
+    type: Number,
+    default: 0
+  },
+  lastMatchedAt: {
+    type: Date
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+TriageRuleSchema.index({ name: 1 }, { unique: true });
+TriageRuleSchema.index({ target: 1, enabled: 1, order: 1 });
+
+export const TriageRule = mongoose.model<ITriageRule>('TriageRule', TriageRuleSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import bcrypt from 'bcryptjs';
+
+export const STAFF_ROLES = ['admin', 'receptionist', 'doctor', 'content-editor'] as const;
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export interface IRefreshToken {
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface IUser extends Document {
+  name: string;
+  email: string;
+  password: string;
+  role: StaffRole;
+  isActive: boolean;
+  lastLoginAt?: Date;
+  refreshTokens: IRefreshToken[];
+  calendarFeedVersion: number; // bumped to revoke every calendar feed URL issued to the user
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidate: string): Promise<boolean>;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  tokenHash: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  createdAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const UserSchema = new Schema<IUser>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    minlength: [2, 'Name must be at least 2 characters'],
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true,
+    unique: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,})+$/, 'Please enter a valid email']
+  },
+  password: {
+    type: String,
+    required: [true, 'Password is required'],
+    minlength: [8, 'Password must be at least 8 characters'],
+    select: false
+  },
+  role: {
+    type: String,
+    enum: STAFF_ROLES,
+    required: [true, 'Role is required']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastLoginAt: {
+    type: Date
+  },
+  refreshTokens: {
+    type: [RefreshTokenSchema],
+    default: [],
+    select: false
+  },
+  calendarFeedVersion: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: (_doc, ret: Record<string, any>) => {
+      delete ret.password;
+      delete ret.refreshTokens;
+      return ret;
+    }
+  }
+});
+
+UserSchema.index({ role: 1 });
+
+// Hash password whenever it is set or changed
+UserSchema.pre('save', async function(next) {
+  if (!this.isModified('password')) return next();
+  this.password = await bcrypt.hash(this.password, 12);
+  next();
+});
+
+UserSchema.methods.comparePassword = function(this: IUser, candidate: string): Promise<boolean> {
+  return bcrypt.compare(candidate, this.password);
+};
+
+export const User = mongoose.model<IUser>('User', UserSchema);
@@ -0,0 +1,125 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { storePhoneAsE164 } from '../utils/contactDetails.js';
+
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'booked', 'expired', 'cancelled'] as const;
+export type WaitlistStatus = typeof WAITLIST_STATUSES[number];
+
+export interface IWaitlistOffer {
+  date: Date;
+  time: string;
+  sourceAppointment?: Types.ObjectId; // the cancelled booking that freed the slot
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+export interface IWaitlistEntry extends Document {
+  name: string;
+  email: string;
+  phone: string; // E.164, e.g. +919876543210
+  phoneRaw?: string; // as the patient typed it
+  treatmentType: string;
+  treatment?: Types.ObjectId;
+  dateFrom: Date;
+  dateTo: Date; // inclusive
+  message?: string;
+  status: WaitlistStatus;
+  offer?: IWaitlistOffer;
+  missedOffers: number;
+  appointment?: Types.ObjectId; // set once an offer is claimed
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistOfferSchema = new Schema<IWaitlistOffer>({
+  date: { type: Date, required: true },
+  time: { type: String, required: true },
+  sourceAppointment: { type: Schema.Types.ObjectId, ref: 'Appointment' },
+  offeredAt: { type: Date, required: true },
+  expiresAt: { type: Date, required: true }
+}, { _id: false });
+
+const WaitlistEntrySchema = new Schema<IWaitlistEntry>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    minlength: [2, 'Name must be at least 2 characters'],
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required'],
+    trim: true,
+    match: [/^[\+]?[\d\s\-\(\)]+$/, 'Please enter a valid phone number']
+  },
+  phoneRaw: {
+    type: String,
+    trim: true
+  },
+  treatmentType: {
+    type: String,
+    required: [true, 'Treatment type is required'],
+    trim: true,
+    maxlength: [100, 'Treatment type cannot exceed 100 characters']
+  },
+  treatment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Treatment'
+  },
+  dateFrom: {
+    type: Date,
+    required: [true, 'Start of the date range is required']
+  },
+  dateTo: {
+    type: Date,
+    required: [true, 'End of the date range is required']
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: WAITLIST_STATUSES,
+    default: 'waiting'
+  },
+  offer: {
+    type: WaitlistOfferSchema
+  },
+  missedOffers: {
+    type: Number,
+    default: 0
+  },
+  appointment: {
+    type: Schema.Types.ObjectId,
+    ref: 'Appointment'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  }
+}, {
+  timestamps: true
+});
+
+WaitlistEntrySchema.index({ status: 1, dateFrom: 1, dateTo: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ 'offer.expiresAt': 1 });
+WaitlistEntrySchema.pre('validate', function(next) {
+  storePhoneAsE164(this);
+  next();
+});
+
+WaitlistEntrySchema.index({ email: 1 });
+WaitlistEntrySchema.index({ phone: 1 });
+
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
@@ -1,41 +1,29 @@
 import { Router, Request, Response } from 'express';
+import { Types } from 'mongoose';
 import { body, validationResult, query } from 'express-validator';
 import { emailService } from '../services/emailService.js';
-import { Appointment, IAppointment } from '../models/Appointment.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { Appointment, IAppointment, APPOINTMENT_STATUSES } from '../models/Appointment.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole, getStaffActor } from '../middleware/auth.js';
+import { availabilityService, ACTIVE_APPOINTMENT_STATUSES } from '../services/availabilityService.js';
+import { scheduleService } from '../services/scheduleService.js';
+import { treatmentService } from '../services/treatmentService.js';
+import { reminderService } from '../services/reminderService.js';
+import { jobScheduler } from '../services/jobScheduler.js';
+import { linkService } from '../services/linkService.js';
+import { waitlistService } from '../services/waitlistService.js';
+import { treatmentPlanService } from '../services/treatmentPlanService.js';
+import { calendarService } from '../services/calendarService.js';
+import { appointmentService } from '../services/appointmentService.js';
+import { attendanceService } from '../services/attendanceService.js';
+import { patientService } from '../services/patientService.js';
+import { triageService } from '../services/triageService.js';
+import { replyTemplateService } from '../services/replyTemplateService.js';
+import { isTimeSlotLabel, toDateKey, getSlotStart, getClinicDateKey, getClinicDayBounds } from '../utils/timeSlots.js';
+import { isPhoneNumber, normalizePhone } from '../utils/contactDetails.js';
 
 const router = Router();
 
-// Treatment types for validation
-const validTreatmentTypes = [
-  'Acne Treatment',
-  'Anti-Aging Treatment',
-  'Chemical Peels',
-  'Pigmentation Treatment',
-  'Hair Transplant',
-  'PRP Hair Therapy',
-  'Hair Loss Treatment',
-  'Scalp Treatment',
-  'Laser Hair Removal',
-  'Laser Skin Resurfacing',
-  'Laser Tattoo Removal',
-  'Laser Pigmentation Removal',
-  'General Consultation',
-];
-
-// Time slots for validation
-const validTimeSlots = [
-  '9:00 AM',
-  '10:00 AM',
-  '11:00 AM',
-  '12:00 PM',
-  '2:00 PM',
-  '3:00 PM',
-  '4:00 PM',
-  '5:00 PM',
-  '6:00 PM',
-];
-
 // Validation rules for appointment booking
 const appointmentValidation = [
   body('name')
@@ -48,52 +36,64 @@ const appointmentValidation = [
     .withMessage('Please provide a valid email address'),
   body('phone')
     .trim()
-    .matches(/^[\+]?[\d\s\-\(\)]+$/)
-    .isLength({ min: 10, max: 20 })
-    .withMessage('Please provide a valid phone number'),
+    .custom(isPhoneNumber),
   body('treatmentType')
-    .isIn(validTreatmentTypes)
-    .withMessage('Please select a valid treatment type'),
+    .isString()
+    .bail()
+    .custom(async (value) => {
+      if (!(await treatmentService.findActiveByName(value))) {
+        throw new Error('Please select a valid treatment type');
+      }
+      return true;
+    }),
   body('preferredDate')
     .isISO8601()
     .withMessage('Please provide a valid date')
     .custom((value) => {
-      const selectedDate = new Date(value);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (selectedDate < today) {
+      // Compared as calendar days at the clinic, whatever timezone the server runs in
+      if (toDateKey(value) < getClinicDateKey()) {
         throw new Error('Date cannot be in the past');
       }
       return true;
     }),
   body('preferredTime')
-    .isIn(validTimeSlots)
-    .withMessage('Please select a valid time slot'),
+    .custom(async (value, { req }) => {
+      const date = new Date(req.body.preferredDate);
+      if (isNaN(date.getTime())) return true;
+
+      const day = await scheduleService.getSlotsForDate(toDateKey(date));
+      if (!day.isOpen) throw new Error(day.closedReason);
+      if (!day.slots.includes(value)) throw new Error('Please select a valid time slot');
+      const startsAt = getSlotStart(date, value);
+      if (startsAt && startsAt <= new Date()) throw new Error('This time slot has already passed');
+      return true;
+    }),
   body('message')
     .optional()
     .trim()
     .isLength({ max: 1000 })
     .withMessage('Message must be less than 1000 characters'),
+  body('practitioner')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid practitioner'),
 ];
 
 // Validation rules for appointment update
 const appointmentUpdateValidation = [
   body('status')
     .optional()
-    .isIn(['pending', 'confirmed', 'cancelled', 'completed', 'no-show'])
+    .isIn(APPOINTMENT_STATUSES)
     .withMessage('Invalid status'),
+  body('statusReason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Status reason cannot exceed 500 characters'),
   body('priority')
     .optional()
     .isIn(['low', 'medium', 'high'])
     .withMessage('Invalid priority'),
-  body('confirmedDate')
-    .optional()
-    .isISO8601()
-    .withMessage('Invalid confirmed date'),
-  body('confirmedTime')
-    .optional()
-    .isIn(validTimeSlots)
-    .withMessage('Invalid confirmed time'),
   body('duration')
     .optional()
     .isInt({ min: 15, max: 480 })
@@ -108,6 +108,10 @@ const appointmentUpdateValidation = [
     .trim()
     .isLength({ max: 100 })
     .withMessage('Assigned to cannot exceed 100 characters'),
+  body('practitioner')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid practitioner'),
   body('tags')
     .optional()
     .isArray()
@@ -130,22 +134,62 @@ router.post('/', appointmentValidation, asyncHandler(async (req: Request, res: R
     });
   }
 
-  const { name, email, phone, treatmentType, preferredDate, preferredTime, message } = req.body;
+  const { name, email, phone, treatmentType, preferredDate, preferredTime, message, practitioner } = req.body;
+
+  const treatment = (await treatmentService.findActiveByName(treatmentType))!;
 
   // Create appointment record
+  const duration = treatment.defaultDuration;
+  const dateKey = toDateKey(preferredDate);
   const appointment = new Appointment({
     name,
     email,
     phone,
     treatmentType,
+    treatment: treatment._id,
     preferredDate: new Date(preferredDate),
     preferredTime,
     message,
-    status: 'pending',
+    duration,
     priority: 'medium'
   });
+  appointment.transitionTo('pending', { kind: 'patient', name });
+
+  // Patients who have repeatedly not turned up must reconfirm before the day
+  const attendance = await attendanceService.getRecord(email);
+  if (attendance.requiresReconfirmation) {
+    appointment.requiresReconfirmation = true;
+    appointment.tags.push('reconfirm');
+  }
+
+  const triage = await triageService.apply('appointment', appointment, 'booking');
+
+  // Reject the booking if the slot (and any following slots the treatment needs) is full
+  // or no qualified practitioner is free for it
+  const slotCheck = await availabilityService.withDayLocks([dateKey], async () => {
+    const check = await availabilityService.checkSlot(dateKey, preferredTime, duration, undefined, {
+      treatment: treatment._id as Types.ObjectId,
+      practitioner,
+    });
+    if (check.available) {
+      appointment.practitioner = availabilityService.pickPractitioner(check)?._id as Types.ObjectId | undefined;
+      appointment.patient = await patientService.resolveId({ name, email, phone });
+      await appointment.save();
+    }
+    return check;
+  });
+  if (!slotCheck.available) {
+    const availability = await availabilityService.getDayAvailability(dateKey, treatmentType, practitioner);
+    return res.status(409).json({
+      success: false,
+      message: slotCheck.reason,
+      data: {
+        alternatives: availability.slots.filter(slot => slot.available).map(slot => slot.time),
+      },
+    });
+  }
 
-  await appointment.save();
+  await triageService.notify(triage, appointment);
 
   // Send confirmation email to user (non-blocking)
   try {
@@ -157,6 +201,8 @@ router.post('/', appointmentValidation, asyncHandler(async (req: Request, res: R
       preferredDate,
       preferredTime,
       message,
+      treatment,
+      manageUrl: linkService.getAppointmentManageUrl(String(appointment._id)),
     });
   } catch (emailError) {
     console.warn('⚠️ Failed to send appointment confirmation email:', emailError);
@@ -172,6 +218,7 @@ router.post('/', appointmentValidation, asyncHandler(async (req: Request, res: R
       preferredDate,
       preferredTime,
       message,
+      treatment,
     });
   } catch (emailError) {
     console.warn('⚠️ Failed to send appointment admin alert email:', emailError);
@@ -190,6 +237,8 @@ router.post('/', appointmentValidation, asyncHandler(async (req: Request, res: R
       treatmentType: appointment.treatmentType,
       preferredDate: appointment.preferredDate,
       preferredTime: appointment.preferredTime,
+      startsAt: appointment.startsAt,
+      endsAt: appointment.endsAt,
       status: appointment.status,
       createdAt: appointment.createdAt,
     },
@@ -197,12 +246,14 @@ router.post('/', appointmentValidation, asyncHandler(async (req: Request, res: R
 }));
 
 // GET /api/appointment - Get all appointments with pagination and filtering
-router.get('/', [
+router.get('/', requireRole('receptionist', 'doctor'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
-  query('status').optional().isIn(['pending', 'confirmed', 'cancelled', 'completed', 'no-show']).withMessage('Invalid status'),
+  query('status').optional().isIn(APPOINTMENT_STATUSES).withMessage('Invalid status'),
   query('priority').optional().isIn(['low', 'medium', 'high']).withMessage('Invalid priority'),
-  query('treatmentType').optional().isIn(validTreatmentTypes).withMessage('Invalid treatment type'),
+  query('treatmentType').optional().trim().isLength({ max: 100 }).withMessage('Invalid treatment type'),
+  query('practitioner').optional().isMongoId().withMessage('Invalid practitioner'),
+  query('awaitingReconfirmation').optional().isBoolean().withMessage('awaitingReconfirmation must be a boolean'),
   query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
   query('dateFrom').optional().isISO8601().withMessage('Invalid date format'),
   query('dateTo').optional().isISO8601().withMessage('Invalid date format'),
@@ -225,25 +276,34 @@ router.get('/', [
   if (req.query.status) filter.status = req.query.status;
   if (req.query.priority) filter.priority = req.query.priority;
   if (req.query.treatmentType) filter.treatmentType = req.query.treatmentType;
+  if (req.query.practitioner) filter.practitioner = req.query.practitioner;
+  if (req.query.awaitingReconfirmation === 'true') {
+    filter.requiresReconfirmation = true;
+    filter.reconfirmedAt = null;
+  }
   
-  // Date range filter
+  // Date range filter on the scheduled start; both ends are whole calendar days at the clinic
   if (req.query.dateFrom || req.query.dateTo) {
-    filter.preferredDate = {};
-    if (req.query.dateFrom) filter.preferredDate.$gte = new Date(req.query.dateFrom as string);
-    if (req.query.dateTo) filter.preferredDate.$lte = new Date(req.query.dateTo as string);
+    filter.startsAt = {};
+    if (req.query.dateFrom) filter.startsAt.$gte = getClinicDayBounds(toDateKey(req.query.dateFrom as string)).start;
+    if (req.query.dateTo) filter.startsAt.$lt = getClinicDayBounds(toDateKey(req.query.dateTo as string)).end;
   }
   
   if (req.query.search) {
+    // Phones are stored in E.164: match the whole number however it was typed, or part of it by its digits
+    const phone = normalizePhone(req.query.search as string);
+    const digits = (req.query.search as string).replace(/\D/g, '');
     filter.$or = [
       { name: { $regex: req.query.search, $options: 'i' } },
       { email: { $regex: req.query.search, $options: 'i' } },
-      { phone: { $regex: req.query.search, $options: 'i' } },
+      ...(phone ? [{ phone }] : []),
+      ...(digits.length >= 4 ? [{ phone: { $regex: digits } }] : []),
       { treatmentType: { $regex: req.query.search, $options: 'i' } }
     ];
   }
 
   const appointments = await Appointment.find(filter)
-    .sort({ preferredDate: 1, preferredTime: 1 })
+    .sort({ startsAt: 1 })
     .skip(skip)
     .limit(limit)
     .lean();
@@ -268,18 +328,86 @@ router.get('/', [
 }));
 
 // GET /api/appointment/treatments - Get available treatment types
-router.get('/treatments', (req: Request, res: Response) => {
-  res.status(200).json({
+router.get('/treatments', asyncHandler(async (req: Request, res: Response) => {
+  const treatments = await treatmentService.getActiveTreatments();
+
+  return res.status(200).json({
     success: true,
     data: {
-      treatments: validTreatmentTypes,
-      timeSlots: validTimeSlots,
+      treatments: treatments.map(treatment => treatment.name),
+      catalog: treatments,
+      timeSlots: await scheduleService.getWeeklySlotLabels(),
     },
   });
-});
+}));
+
+// GET /api/appointment/availability - Get free slots for a date (public)
+router.get('/availability', [
+  query('date').isISO8601().withMessage('Please provide a valid date'),
+  query('treatmentType').optional().trim().isLength({ max: 100 }).withMessage('Invalid treatment type'),
+  query('practitioner').optional().isMongoId().withMessage('Invalid practitioner'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const availability = await availabilityService.getDayAvailability(
+    toDateKey(req.query.date as string),
+    req.query.treatmentType as string | undefined,
+    req.query.practitioner as string | undefined
+  );
+
+  return res.status(200).json({
+    success: true,
+    data: availability
+  });
+}));
+
+// GET /api/appointment/reminders/due - Preview appointments that are due a reminder
+router.get('/reminders/due', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const due = await reminderService.findDue();
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      leadHours: reminderService.getLeadHours(),
+      appointments: due.map(({ appointment, startsAt }) => ({
+        id: appointment._id,
+        referenceId: appointment.referenceId,
+        name: appointment.name,
+        email: appointment.email,
+        treatmentType: appointment.treatmentType,
+        startsAt,
+      })),
+    }
+  });
+}));
+
+// POST /api/appointment/reminders/run - Send due reminders now
+router.post('/reminders/run', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const run = await jobScheduler.run('appointment-reminders');
+
+  if (!run.ran) {
+    return res.status(409).json({
+      success: false,
+      message: 'Reminders are already being sent by another process'
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Reminder run completed',
+    data: run.result
+  });
+}));
 
 // GET /api/appointment/stats/summary - Get appointment statistics
-router.get('/stats/summary', asyncHandler(async (req: Request, res: Response) => {
+router.get('/stats/summary', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
   const stats = await Appointment.aggregate([
     {
       $group: {
@@ -316,8 +444,10 @@ router.get('/stats/summary', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // GET /api/appointment/:id - Get single appointment
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
-  const appointment = await Appointment.findById(req.params.id);
+router.get('/:id', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const appointment = await Appointment.findById(req.params.id)
+    .populate('practitioner', 'name title')
+    .populate('patient', 'name email phone');
   
   if (!appointment) {
     return res.status(404).json({
@@ -328,12 +458,16 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 
   return res.status(200).json({
     success: true,
-    data: appointment
+    data: {
+      ...appointment.toJSON(),
+      series: await treatmentPlanService.getSeries(appointment),
+      attendance: await attendanceService.getRecord(appointment.email),
+    }
   });
 }));
 
 // PUT /api/appointment/:id - Update appointment
-router.put('/:id', appointmentUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', requireRole('receptionist', 'doctor'), appointmentUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -352,10 +486,21 @@ router.put('/:id', appointmentUpdateValidation, asyncHandler(async (req: Request
     });
   }
 
-  // Update fields
+  const previousStatus = appointment.status;
+
+  // Status goes through the workflow so illegal moves are rejected and the change is recorded
+  if (req.body.status !== undefined) {
+    appointment.transitionTo(
+      req.body.status,
+      getStaffActor(req),
+      req.body.statusReason || (req.body.status === 'cancelled' ? req.body.cancelledReason : undefined)
+    );
+  }
+
+  // Update fields; the date and time only change through confirm or reschedule, which check the slot
   const allowedUpdates = [
-    'status', 'priority', 'confirmedDate', 'confirmedTime', 'duration',
-    'notes', 'assignedTo', 'tags', 'cancelledReason'
+    'priority', 'duration',
+    'notes', 'assignedTo', 'practitioner', 'tags', 'cancelledReason'
   ];
   
   allowedUpdates.forEach(field => {
@@ -364,7 +509,46 @@ router.put('/:id', appointmentUpdateValidation, asyncHandler(async (req: Request
     }
   });
 
-  await appointment.save();
+  // A new practitioner or a longer booking must still fit the slot, checked as confirm does
+  const slotChanged = req.body.practitioner !== undefined || req.body.duration !== undefined;
+  if (slotChanged && ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+    const dateKey = toDateKey(appointment.confirmedDate || appointment.preferredDate);
+    const slotCheck = await availabilityService.withDayLocks([dateKey], async () => {
+      const check = await availabilityService.checkSlot(
+        dateKey,
+        appointment.confirmedTime || appointment.preferredTime,
+        appointment.duration,
+        String(appointment._id),
+        { treatment: appointment.treatment, practitioner: appointment.practitioner ? String(appointment.practitioner) : undefined }
+      );
+      if (check.available) await appointment.save();
+      return check;
+    });
+    if (!slotCheck.available) {
+      return res.status(409).json({
+        success: false,
+        message: slotCheck.reason,
+        data: {
+          conflicts: slotCheck.conflicts.map(conflict => ({
+            id: conflict._id,
+            referenceId: conflict.referenceId,
+            name: conflict.name,
+            treatmentType: conflict.treatmentType,
+            status: conflict.status,
+          })),
+        },
+      });
+    }
+  } else {
+    await appointment.save();
+  }
+
+  if (appointment.status === 'cancelled' && previousStatus !== 'cancelled') {
+    await waitlistService.offerFreedSlot(appointment);
+  }
+  if (appointment.treatmentPlan && appointment.status !== previousStatus) {
+    await treatmentPlanService.syncStatus(appointment.treatmentPlan);
+  }
 
   return res.status(200).json({
     success: true,
@@ -374,7 +558,7 @@ router.put('/:id', appointmentUpdateValidation, asyncHandler(async (req: Request
 }));
 
 // DELETE /api/appointment/:id - Delete appointment
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const appointment = await Appointment.findByIdAndDelete(req.params.id);
   
   if (!appointment) {
@@ -391,10 +575,12 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // POST /api/appointment/:id/confirm - Confirm an appointment
-router.post('/:id/confirm', [
+router.post('/:id/confirm', requireRole('receptionist'), [
   body('confirmedDate').optional().isISO8601().withMessage('Invalid confirmed date'),
-  body('confirmedTime').optional().isIn(validTimeSlots).withMessage('Invalid confirmed time'),
+  body('confirmedTime').optional().custom(isTimeSlotLabel),
   body('notes').optional().trim().isLength({ max: 1000 }).withMessage('Notes too long'),
+  body('practitioner').optional().isMongoId().withMessage('Invalid practitioner'),
+  body('allowOverbooking').optional().isBoolean().withMessage('allowOverbooking must be a boolean'),
 ], asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -414,13 +600,59 @@ router.post('/:id/confirm', [
     });
   }
 
-  // Update appointment status and confirmation details
-  appointment.status = 'confirmed';
-  if (req.body.confirmedDate) appointment.confirmedDate = new Date(req.body.confirmedDate);
-  if (req.body.confirmedTime) appointment.confirmedTime = req.body.confirmedTime;
-  if (req.body.notes) appointment.notes = req.body.notes;
+  appointment.transitionTo('confirmed', getStaffActor(req));
+
+  // Make sure the confirmed slot is still free; staff can override and the booking is flagged instead
+  const confirmedDate = req.body.confirmedDate || appointment.confirmedDate || appointment.preferredDate;
+  const confirmedTime = req.body.confirmedTime || appointment.confirmedTime || appointment.preferredTime;
+  if (req.body.confirmedDate || req.body.confirmedTime) {
+    const startsAt = getSlotStart(confirmedDate, confirmedTime);
+    if (!startsAt || startsAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'The confirmed time has already passed'
+      });
+    }
+  }
+  const dateKey = toDateKey(confirmedDate);
+  const slotCheck = await availabilityService.withDayLocks([dateKey], async () => {
+    const check = await availabilityService.checkSlot(
+      dateKey,
+      confirmedTime,
+      appointment.duration,
+      String(appointment._id),
+      { treatment: appointment.treatment, practitioner: req.body.practitioner }
+    );
+    if (!check.available) {
+      if (req.body.allowOverbooking !== true) return check;
+      if (!appointment.tags.includes('overbooked')) appointment.tags.push('overbooked');
+    }
 
-  await appointment.save();
+    // Update confirmation details
+    const practitioner = req.body.practitioner || availabilityService.pickPractitioner(check, appointment.practitioner)?._id;
+    if (practitioner) appointment.set('practitioner', practitioner);
+    if (req.body.confirmedDate) appointment.confirmedDate = new Date(req.body.confirmedDate);
+    if (req.body.confirmedTime) appointment.confirmedTime = req.body.confirmedTime;
+    if (req.body.notes) appointment.notes = req.body.notes;
+
+    await appointment.save();
+    return check;
+  });
+  if (!slotCheck.available && req.body.allowOverbooking !== true) {
+    return res.status(409).json({
+      success: false,
+      message: slotCheck.reason,
+      data: {
+        conflicts: slotCheck.conflicts.map(conflict => ({
+          id: conflict._id,
+          referenceId: conflict.referenceId,
+          name: conflict.name,
+          treatmentType: conflict.treatmentType,
+          status: conflict.status,
+        })),
+      },
+    });
+  }
 
   // Send confirmation email to patient
   await emailService.sendAppointmentConfirmation({
@@ -429,6 +661,9 @@ router.post('/:id/confirm', [
     treatmentType: appointment.treatmentType,
     appointmentDate: appointment.confirmedDate?.toISOString() || appointment.preferredDate.toISOString(),
     appointmentTime: appointment.confirmedTime || appointment.preferredTime,
+    treatment: await treatmentService.getForAppointment(appointment),
+    manageUrl: linkService.getAppointmentManageUrl(String(appointment._id)),
+    calendarInvite: calendarService.buildInvite(appointment),
   });
 
   console.log(`✅ Appointment confirmed for ${appointment.name} (${appointment.email}) - ${appointment.treatmentType}`);
@@ -440,4 +675,124 @@ router.post('/:id/confirm', [
   });
 }));
 
+// POST /api/appointment/:id/check-in - Record that the patient has arrived
+router.post('/:id/check-in', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const appointment = await Appointment.findById(req.params.id);
+
+  if (!appointment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Appointment not found'
+    });
+  }
+
+  if (appointment.status !== 'confirmed') {
+    return res.status(409).json({
+      success: false,
+      message: `Only confirmed appointments can be checked in (this one is ${appointment.status})`
+    });
+  }
+
+  if (!appointment.checkedInAt) {
+    appointment.checkedInAt = new Date();
+    appointment.checkedInBy = getStaffActor(req);
+    await appointment.save();
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Patient checked in',
+    data: appointment
+  });
+}));
+
+// POST /api/appointment/:id/reschedule - Move an appointment to another free slot, keeping the previous time in its history
+router.post('/:id/reschedule', requireRole('receptionist'), [
+  body('date').isISO8601().withMessage('Please provide a valid date'),
+  body('time').custom(isTimeSlotLabel),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason cannot exceed 500 characters'),
+  body('practitioner').optional().isMongoId().withMessage('Invalid practitioner'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const appointment = await Appointment.findById(req.params.id);
+
+  if (!appointment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Appointment not found'
+    });
+  }
+
+  await appointmentService.reschedule(appointment, {
+    date: req.body.date,
+    time: req.body.time,
+    actor: getStaffActor(req),
+    reason: req.body.reason,
+    practitioner: req.body.practitioner,
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Appointment rescheduled and the patient has been notified.',
+    data: appointment
+  });
+}));
+
+// POST /api/appointment/:id/message - Email the patient about the appointment, by hand or from a reply template
+router.post('/:id/message', requireRole('receptionist'), [
+  body('subject').optional().trim().isLength({ min: 1, max: 200 }).withMessage('Subject must be between 1 and 200 characters'),
+  body('message').optional().trim().isLength({ min: 1, max: 10000 }).withMessage('Message must be between 1 and 10000 characters'),
+  body('templateId').optional().isMongoId().withMessage('Invalid template'),
+  body('variables').optional().isObject().withMessage('Variables must be an object'),
+  body('variables.*').isString().trim().isLength({ max: 500 }).withMessage('Variable values cannot exceed 500 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const appointment = await Appointment.findById(req.params.id);
+
+  if (!appointment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Appointment not found'
+    });
+  }
+
+  if (req.body.templateId ? (req.body.subject || req.body.message) : !(req.body.subject && req.body.message)) {
+    throw createError('Send either a subject and message or a templateId', 400);
+  }
+
+  let content = { subject: req.body.subject as string, message: req.body.message as string };
+  const template = req.body.templateId ? await replyTemplateService.findTemplate(req.body.templateId) : undefined;
+  if (template) {
+    const rendered = await replyTemplateService.prepare(template, { appointment }, req.user!, req.body.variables);
+    content = { subject: rendered.subject!, message: rendered.body };
+  }
+
+  const sent = await appointmentService.sendMessage(appointment, content, req.user!, template);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Message sent successfully',
+    data: {
+      message: sent,
+      appointment
+    }
+  });
+}));
+
 export { router as appointmentRouter };
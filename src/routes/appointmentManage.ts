@@ -0,0 +1,238 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { emailService } from '../services/emailService.js';
+import { linkService } from '../services/linkService.js';
+import { availabilityService, ACTIVE_APPOINTMENT_STATUSES } from '../services/availabilityService.js';
+import { waitlistService } from '../services/waitlistService.js';
+import { treatmentPlanService } from '../services/treatmentPlanService.js';
+import { calendarService } from '../services/calendarService.js';
+import { appointmentService } from '../services/appointmentService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { getSlotStart, toDateKey } from '../utils/timeSlots.js';
+
+// Public endpoints behind the signed link in patient emails; the token is the only credential
+const router = Router();
+
+// Resolves the :token parameter to the appointment it was issued for
+const loadAppointment = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const appointmentId = linkService.verify(req.params.token, 'appointment-manage');
+  if (!appointmentId) {
+    throw createError('This link is invalid or has expired', 401);
+  }
+
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment) {
+    throw createError('Appointment not found', 404);
+  }
+
+  res.locals.appointment = appointment;
+  next();
+});
+
+const getScheduledSlot = (appointment: IAppointment) => ({
+  date: appointment.confirmedDate || appointment.preferredDate,
+  time: appointment.confirmedTime || appointment.preferredTime,
+});
+
+// Patients can only change upcoming appointments that are still pending or confirmed
+const canChange = (appointment: IAppointment): boolean => {
+  const { date, time } = getScheduledSlot(appointment);
+  const startsAt = getSlotStart(date, time);
+  return ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) && !!startsAt && startsAt > new Date();
+};
+
+const toPatientView = (appointment: IAppointment) => {
+  const { date, time } = getScheduledSlot(appointment);
+  const changeable = canChange(appointment);
+  return {
+    referenceId: appointment.referenceId,
+    name: appointment.name,
+    treatmentType: appointment.treatmentType,
+    date,
+    time,
+    duration: appointment.duration,
+    status: appointment.status,
+    cancelledAt: appointment.cancelledAt,
+    canCancel: changeable,
+    canReschedule: changeable && appointmentService.getPatientReschedulesRemaining(appointment) > 0,
+    reschedulesRemaining: appointmentService.getPatientReschedulesRemaining(appointment),
+    needsReconfirmation: changeable && appointment.requiresReconfirmation && !appointment.reconfirmedAt,
+  };
+};
+
+// GET /api/appointment/manage/:token - View appointment status
+router.get('/:token', loadAppointment, (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: toPatientView(res.locals.appointment)
+  });
+});
+
+// GET /api/appointment/manage/:token/availability - Free slots for moving this appointment
+router.get('/:token/availability', loadAppointment, [
+  query('date').isISO8601().withMessage('Please provide a valid date'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const appointment: IAppointment = res.locals.appointment;
+  const availability = await availabilityService.getDayAvailability(
+    toDateKey(req.query.date as string),
+    appointment.treatmentType
+  );
+
+  return res.status(200).json({
+    success: true,
+    data: availability
+  });
+}));
+
+// POST /api/appointment/manage/:token/cancel - Cancel the appointment
+router.post('/:token/cancel', loadAppointment, [
+  body('reason')
+    .trim()
+    .isLength({ min: 2, max: 500 })
+    .withMessage('Please tell us why you are cancelling (up to 500 characters)'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const appointment: IAppointment = res.locals.appointment;
+  if (!canChange(appointment)) {
+    throw createError('This appointment can no longer be cancelled online. Please call the clinic.', 409);
+  }
+
+  appointment.transitionTo('cancelled', { kind: 'patient', name: appointment.name }, req.body.reason);
+  appointment.cancelledReason = req.body.reason;
+  await appointment.save();
+
+  await waitlistService.offerFreedSlot(appointment);
+  if (appointment.treatmentPlan) {
+    await treatmentPlanService.syncStatus(appointment.treatmentPlan);
+  }
+
+  const { date, time } = getScheduledSlot(appointment);
+
+  try {
+    await emailService.sendAppointmentCancellation({
+      name: appointment.name,
+      email: appointment.email,
+      treatmentType: appointment.treatmentType,
+      appointmentDate: date.toISOString(),
+      appointmentTime: time,
+      reason: appointment.cancelledReason,
+      calendarInvite: calendarService.buildInvite(appointment),
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send cancellation email:', emailError);
+  }
+
+  try {
+    await emailService.sendAppointmentChangeAlert({
+      action: 'cancelled',
+      referenceId: appointment.referenceId!,
+      name: appointment.name,
+      email: appointment.email,
+      phone: appointment.phone,
+      treatmentType: appointment.treatmentType,
+      appointmentDate: date.toISOString(),
+      appointmentTime: time,
+      reason: appointment.cancelledReason,
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send cancellation alert email:', emailError);
+  }
+
+  console.log(`❌ Appointment ${appointment.referenceId} cancelled by patient`);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Your appointment has been cancelled.',
+    data: toPatientView(appointment)
+  });
+}));
+
+// POST /api/appointment/manage/:token/reconfirm - Confirm the patient will attend
+router.post('/:token/reconfirm', loadAppointment, asyncHandler(async (req: Request, res: Response) => {
+  const appointment: IAppointment = res.locals.appointment;
+  if (!canChange(appointment)) {
+    throw createError('This appointment can no longer be confirmed online. Please call the clinic.', 409);
+  }
+
+  if (!appointment.reconfirmedAt) {
+    appointment.reconfirmedAt = new Date();
+    await appointment.save();
+    console.log(`👍 Appointment ${appointment.referenceId} reconfirmed by patient`);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Thank you for confirming. We look forward to seeing you.',
+    data: toPatientView(appointment)
+  });
+}));
+
+// POST /api/appointment/manage/:token/reschedule - Move the appointment to another free slot
+router.post('/:token/reschedule', loadAppointment, [
+  body('date').isISO8601().withMessage('Please provide a valid date'),
+  body('time').isString().notEmpty().withMessage('Please select a time slot'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const appointment: IAppointment = res.locals.appointment;
+  if (!canChange(appointment)) {
+    throw createError('This appointment can no longer be rescheduled online. Please call the clinic.', 409);
+  }
+
+  const { previous } = await appointmentService.reschedule(appointment, {
+    date: req.body.date,
+    time: req.body.time,
+    actor: { kind: 'patient', name: appointment.name },
+  });
+  const { date, time } = getScheduledSlot(appointment);
+
+  try {
+    await emailService.sendAppointmentChangeAlert({
+      action: 'rescheduled',
+      referenceId: appointment.referenceId!,
+      name: appointment.name,
+      email: appointment.email,
+      phone: appointment.phone,
+      treatmentType: appointment.treatmentType,
+      appointmentDate: date.toISOString(),
+      appointmentTime: time,
+      previousDate: previous.date.toISOString(),
+      previousTime: previous.time,
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send reschedule alert email:', emailError);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Your appointment has been rescheduled.',
+    data: toPatientView(appointment)
+  });
+}));
+
+export { router as appointmentManageRouter };
@@ -0,0 +1,119 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { User } from '../models/User.js';
+import { authService } from '../services/authService.js';
+import { authenticate } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+const loginValidation = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  body('password')
+    .isString()
+    .notEmpty()
+    .withMessage('Password is required'),
+];
+
+const refreshValidation = [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+];
+
+// POST /api/auth/login - Exchange staff credentials for tokens
+router.post('/login', loginValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { email, password } = req.body;
+
+  const user = await User.findOne({ email }).select('+password');
+  if (!user || !user.isActive || !(await user.comparePassword(password))) {
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid email or password'
+    });
+  }
+
+  user.lastLoginAt = new Date();
+  await user.save();
+
+  const accessToken = authService.signAccessToken(user);
+  const refreshToken = await authService.issueRefreshToken(user);
+
+  console.log(`🔐 Staff login: ${user.email} (${user.role})`);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Logged in successfully',
+    data: {
+      accessToken,
+      refreshToken,
+      user
+    }
+  });
+}));
+
+// POST /api/auth/refresh - Rotate a refresh token and issue a new access token
+router.post('/refresh', refreshValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const result = await authService.rotateRefreshToken(req.body.refreshToken);
+  if (!result) {
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid or expired refresh token'
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+      user: result.user
+    }
+  });
+}));
+
+// POST /api/auth/logout - Revoke a refresh token (or all of them with allDevices)
+router.post('/logout', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  if (req.body.allDevices === true) {
+    await authService.revokeAllRefreshTokens(String(req.user!._id));
+  } else if (typeof req.body.refreshToken === 'string') {
+    await authService.revokeRefreshToken(String(req.user!._id), req.body.refreshToken);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Logged out successfully'
+  });
+}));
+
+// GET /api/auth/me - Get the current staff user
+router.get('/me', authenticate, (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: req.user
+  });
+});
+
+export { router as authRouter };
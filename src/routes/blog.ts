@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult, query, param } from 'express-validator';
 import { Blog } from '../models/Blog.js';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -26,7 +27,7 @@ const createValidation = [
 ];
 
 // POST /api/blog - create
-router.post('/', createValidation, asyncHandler(async (req: Request, res: Response) => {
+router.post('/', requireRole('content-editor'), createValidation, asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
@@ -87,7 +88,7 @@ router.get('/:slug', [ param('slug').trim().isLength({ min: 3 }) ], asyncHandler
 }));
 
 // PUT /api/blog/:id - update
-router.put('/:id', createValidation, asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', requireRole('content-editor'), createValidation, asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
@@ -99,7 +100,7 @@ router.put('/:id', createValidation, asyncHandler(async (req: Request, res: Resp
 }));
 
 // DELETE /api/blog/:id - delete
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requireRole('content-editor'), asyncHandler(async (req: Request, res: Response) => {
   const blog = await Blog.findByIdAndDelete(req.params.id);
   if (!blog) return res.status(404).json({ success: false, message: 'Blog not found' });
   return res.status(200).json({ success: true, message: 'Blog deleted' });
@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import { validationResult, query } from 'express-validator';
+import { Appointment } from '../models/Appointment.js';
+import { Practitioner } from '../models/Practitioner.js';
+import { User } from '../models/User.js';
+import { linkService } from '../services/linkService.js';
+import { calendarService } from '../services/calendarService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 180;
+const FEED_ROLES = ['admin', 'receptionist', 'doctor'];
+
+// Feed URLs point at this API rather than the public site, since calendar apps fetch them directly
+const getApiBaseUrl = (req: Request): string => {
+  const base = process.env.API_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  return base.trim().replace(/\/+$/, '');
+};
+
+// GET /api/calendar/feed-url - Get a subscription URL for the clinic calendar or one practitioner's calendar
+router.get('/feed-url', requireRole('receptionist', 'doctor'), [
+  query('practitioner')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid practitioner'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  let subject = 'clinic';
+  let calendarName = 'Clinic appointments';
+  if (req.query.practitioner) {
+    const practitioner = await Practitioner.findById(req.query.practitioner);
+    if (!practitioner) throw createError('Practitioner not found', 404);
+    subject = `practitioner:${practitioner._id}`;
+    calendarName = `${practitioner.name} - appointments`;
+  }
+
+  const token = linkService.getCalendarFeedToken(subject, String(req.user!._id), req.user!.calendarFeedVersion || 0);
+  return res.status(200).json({
+    success: true,
+    data: {
+      name: calendarName,
+      url: `${getApiBaseUrl(req)}/api/calendar/feed/${encodeURIComponent(token)}.ics`,
+    }
+  });
+}));
+
+// POST /api/calendar/feed/rotate - Revoke every feed URL issued to the current user; fetch a new one afterwards
+router.post('/feed/rotate', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  await User.updateOne({ _id: req.user!._id }, { $inc: { calendarFeedVersion: 1 } });
+
+  return res.status(200).json({
+    success: true,
+    message: 'Your previous calendar feed links no longer work'
+  });
+}));
+
+// GET /api/calendar/feed/:token - Public .ics feed of confirmed appointments; the token is the only credential
+router.get('/feed/:token', asyncHandler(async (req: Request, res: Response) => {
+  const token = req.params.token.replace(/\.ics$/, '');
+  const claims = linkService.verifyCalendarFeedToken(token);
+  if (!claims) throw createError('This feed link is invalid or has expired', 401);
+
+  // The link dies with the staff account it was issued to, or when they rotate their feed links
+  const user = await User.findById(claims.userId).select('role isActive calendarFeedVersion');
+  if (!user || !user.isActive || !FEED_ROLES.includes(user.role) || (user.calendarFeedVersion || 0) !== claims.version) {
+    throw createError('This feed link has been revoked', 401);
+  }
+  const subject = claims.subject;
+
+  const filter: any = { status: 'confirmed' };
+  let calendarName = 'Clinic appointments';
+  if (subject.startsWith('practitioner:')) {
+    const practitioner = await Practitioner.findById(subject.slice('practitioner:'.length));
+    if (!practitioner) throw createError('Practitioner not found', 404);
+    filter.practitioner = practitioner._id;
+    calendarName = `${practitioner.name} - appointments`;
+  }
+
+  const now = Date.now();
+  filter.startsAt = { $gte: new Date(now - FEED_PAST_DAYS * DAY_MS), $lt: new Date(now + FEED_FUTURE_DAYS * DAY_MS) };
+
+  const appointments = await Appointment.find(filter).sort({ startsAt: 1 });
+
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', 'inline; filename="appointments.ics"');
+  res.set('Cache-Control', 'private, max-age=300');
+  return res.status(200).send(calendarService.buildStaffFeed(appointments, calendarName));
+}));
+
+export { router as calendarRouter };
@@ -1,8 +1,13 @@
-import { Router, Request, Response } from 'express';
+import express, { Router, Request, Response } from 'express';
 import { body, validationResult, query } from 'express-validator';
 import { emailService } from '../services/emailService.js';
+import { patientService } from '../services/patientService.js';
+import { contactService } from '../services/contactService.js';
+import { triageService } from '../services/triageService.js';
+import { replyTemplateService } from '../services/replyTemplateService.js';
 import { Contact, IContact } from '../models/Contact.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -64,22 +69,29 @@ router.post('/', contactValidation, asyncHandler(async (req: Request, res: Respo
   const contact = new Contact({
     name,
     email,
+    patient: await patientService.resolveId({ name, email }),
     subject,
     message,
     status: 'new',
     priority: 'medium'
   });
 
+  const triage = await triageService.apply('contact', contact);
   await contact.save();
+  await triageService.notify(triage, contact);
 
-  // Send confirmation email to user (non-blocking)
+  // Send confirmation email to user (non-blocking); staff replies are threaded under it
   try {
-    await emailService.sendContactConfirmation({
+    const messageId = await emailService.sendContactConfirmation({
       name,
       email,
       subject,
       message,
     });
+    if (messageId) {
+      contact.messageId = messageId;
+      await contact.save();
+    }
   } catch (emailError) {
     console.warn('⚠️ Failed to send confirmation email:', emailError);
   }
@@ -112,8 +124,36 @@ router.post('/', contactValidation, asyncHandler(async (req: Request, res: Respo
   });
 }));
 
+// POST /api/contact/inbound - Raw RFC 822 email from the mail relay, authenticated by a shared secret
+router.post('/inbound', express.raw({ type: () => true, limit: '25mb' }), asyncHandler(async (req: Request, res: Response) => {
+  if (!contactService.isInboundConfigured()) {
+    throw createError('Inbound email is not configured', 503);
+  }
+  if (!contactService.verifyInboundSecret(req.get('X-Inbound-Secret'))) {
+    throw createError('Invalid inbound email secret', 401);
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw createError('Send the raw email as the request body', 400);
+  }
+
+  const result = await contactService.ingest(req.body);
+
+  return res.status(result.created ? 201 : 200).json({
+    success: true,
+    message: result.ignored
+      ? `Email ignored (${result.ignored})`
+      : result.created ? 'Email saved as a new contact' : 'Email added to the contact thread',
+    data: {
+      contactId: result.contact?._id,
+      created: result.created,
+      matchedBy: result.matchedBy,
+      ignored: result.ignored,
+    }
+  });
+}));
+
 // GET /api/contact - Get all contacts with pagination and filtering
-router.get('/', [
+router.get('/', requireRole('receptionist'), [
   query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
   query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
   query('status').optional().isIn(['new', 'read', 'replied', 'archived']).withMessage('Invalid status'),
@@ -121,6 +161,7 @@ router.get('/', [
   query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
   query('dateFrom').optional().isISO8601().withMessage('Invalid date format'),
   query('dateTo').optional().isISO8601().withMessage('Invalid date format'),
+  query('overdue').optional().isBoolean().withMessage('overdue must be true or false'),
 ], asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -139,6 +180,9 @@ router.get('/', [
   const filter: any = {};
   if (req.query.status) filter.status = req.query.status;
   if (req.query.priority) filter.priority = req.query.priority;
+  // Past dueAt and still waiting for a reply, or everything else
+  if (req.query.overdue === 'true') filter.$and = [contactService.getOverdueFilter()];
+  if (req.query.overdue === 'false') filter.$nor = [contactService.getOverdueFilter()];
 
   // Date range filter
   if (req.query.dateFrom || req.query.dateTo) {
@@ -157,7 +201,7 @@ router.get('/', [
   }
 
   const contacts = await Contact.find(filter)
-    .sort({ createdAt: -1 })
+    .sort(req.query.overdue === 'true' ? { dueAt: 1 } : { createdAt: -1 })
     .skip(skip)
     .limit(limit)
     .lean();
@@ -182,7 +226,7 @@ router.get('/', [
 }));
 
 // GET /api/contact/:id - Get single contact
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.get('/:id', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
   const contact = await Contact.findById(req.params.id);
   
   if (!contact) {
@@ -199,7 +243,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // PUT /api/contact/:id - Update contact
-router.put('/:id', contactUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
+router.put('/:id', requireRole('receptionist'), contactUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({
@@ -235,8 +279,59 @@ router.put('/:id', contactUpdateValidation, asyncHandler(async (req: Request, re
   });
 }));
 
+// POST /api/contact/:id/reply - Email a reply, written by hand or from a reply template, and add it to the thread
+router.post('/:id/reply', requireRole('receptionist'), [
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 10000 })
+    .withMessage('Reply must be between 1 and 10000 characters'),
+  body('templateId').optional().isMongoId().withMessage('Invalid template'),
+  body('variables').optional().isObject().withMessage('Variables must be an object'),
+  body('variables.*').isString().trim().isLength({ max: 500 }).withMessage('Variable values cannot exceed 500 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const contact = await Contact.findById(req.params.id);
+
+  if (!contact) {
+    return res.status(404).json({
+      success: false,
+      message: 'Contact not found'
+    });
+  }
+
+  if (!req.body.message === !req.body.templateId) {
+    throw createError('Send either a message or a templateId', 400);
+  }
+
+  let message: string = req.body.message;
+  const template = req.body.templateId ? await replyTemplateService.findTemplate(req.body.templateId) : undefined;
+  if (template) {
+    message = (await replyTemplateService.prepare(template, { contact }, req.user!, req.body.variables)).body;
+  }
+
+  const reply = await contactService.reply(contact, message, req.user!, template);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Reply sent successfully',
+    data: {
+      reply,
+      contact
+    }
+  });
+}));
+
 // DELETE /api/contact/:id - Delete contact
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const contact = await Contact.findByIdAndDelete(req.params.id);
   
   if (!contact) {
@@ -253,7 +348,7 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // GET /api/contact/stats/summary - Get contact statistics
-router.get('/stats/summary', asyncHandler(async (req: Request, res: Response) => {
+router.get('/stats/summary', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
   const stats = await Contact.aggregate([
     {
       $group: {
@@ -281,9 +376,14 @@ router.get('/stats/summary', asyncHandler(async (req: Request, res: Response) =>
     lowPriority: 0
   };
 
+  const [overdue, responseTime] = await Promise.all([
+    Contact.countDocuments(contactService.getOverdueFilter()),
+    contactService.getResponseTimeStats(),
+  ]);
+
   return res.status(200).json({
     success: true,
-    data: result
+    data: { ...result, overdue, responseTime }
   });
 }));
 
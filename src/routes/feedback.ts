@@ -0,0 +1,180 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { Feedback, FEEDBACK_ASPECTS } from '../models/Feedback.js';
+import { Practitioner } from '../models/Practitioner.js';
+import { feedbackService, FeedbackStatsFilter } from '../services/feedbackService.js';
+import { linkService } from '../services/linkService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+// Resolves the :token parameter from the survey email to the appointment it was issued for
+const loadAppointment = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const appointmentId = linkService.verify(req.params.token, 'feedback');
+  if (!appointmentId) {
+    throw createError('This link is invalid or has expired', 401);
+  }
+
+  const appointment = await Appointment.findById(appointmentId);
+  if (!appointment || appointment.anonymisedAt) {
+    throw createError('Appointment not found', 404);
+  }
+
+  res.locals.appointment = appointment;
+  next();
+});
+
+const filterValidation = [
+  query('from').optional().isISO8601().withMessage('from must be a valid date'),
+  query('to').optional().isISO8601().withMessage('to must be a valid date'),
+  query('practitioner').optional().isMongoId().withMessage('Invalid practitioner ID'),
+  query('treatmentType').optional().trim(),
+];
+
+const toStatsFilter = (req: Request): FeedbackStatsFilter => ({
+  from: req.query.from ? new Date(req.query.from as string) : undefined,
+  to: req.query.to ? new Date(req.query.to as string) : undefined,
+  practitioner: req.query.practitioner as string | undefined,
+  treatmentType: req.query.treatmentType as string | undefined,
+});
+
+// GET /api/feedback - Submitted feedback, newest first
+router.get('/', requireRole('receptionist', 'doctor'), [
+  ...filterValidation,
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('rating').optional().isInt({ min: 1, max: 5 }).withMessage('Rating must be between 1 and 5'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const filter = feedbackService.buildFilter(toStatsFilter(req));
+  if (req.query.rating) filter.rating = parseInt(req.query.rating as string);
+
+  const [feedback, total] = await Promise.all([
+    Feedback.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('appointment', 'name email preferredDate confirmedDate actualDate')
+      .populate('practitioner', 'name title'),
+    Feedback.countDocuments(filter),
+  ]);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      feedback,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+}));
+
+// GET /api/feedback/stats - Average satisfaction overall, by treatment type and by practitioner
+router.get('/stats', requireRole('receptionist', 'doctor'), filterValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: await feedbackService.getStats(toStatsFilter(req))
+  });
+}));
+
+// GET /api/feedback/survey/:token - What the patient is being asked to rate (public, signed link)
+router.get('/survey/:token', loadAppointment, asyncHandler(async (req: Request, res: Response) => {
+  const appointment: IAppointment = res.locals.appointment;
+  const [practitioner, submitted] = await Promise.all([
+    appointment.practitioner ? Practitioner.findById(appointment.practitioner).select('name title') : null,
+    Feedback.exists({ appointment: appointment._id }),
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      referenceId: appointment.referenceId,
+      name: appointment.name,
+      treatmentType: appointment.treatmentType,
+      date: appointment.actualDate || appointment.confirmedDate || appointment.preferredDate,
+      practitioner: practitioner ? { name: practitioner.name, title: practitioner.title } : null,
+      aspects: FEEDBACK_ASPECTS,
+      canSubmit: appointment.status === 'completed' && !submitted,
+      submitted: !!submitted,
+    }
+  });
+}));
+
+// POST /api/feedback/survey/:token - Submit a rating for the appointment (public, signed link)
+router.post('/survey/:token', loadAppointment, [
+  body('rating')
+    .isInt({ min: 1, max: 5 })
+    .toInt()
+    .withMessage('Rating must be a whole number from 1 to 5'),
+  body('scores')
+    .optional()
+    .isObject()
+    .withMessage('Scores must be an object'),
+  ...FEEDBACK_ASPECTS.map(aspect =>
+    body(`scores.${aspect}`)
+      .optional({ values: 'null' })
+      .isInt({ min: 1, max: 5 })
+      .toInt()
+      .withMessage(`${aspect} score must be a whole number from 1 to 5`)
+  ),
+  body('comments')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Comments cannot exceed 2000 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const scores = Object.fromEntries(
+    FEEDBACK_ASPECTS.filter(aspect => typeof req.body.scores?.[aspect] === 'number').map(aspect => [aspect, req.body.scores[aspect]])
+  );
+  await feedbackService.submit(res.locals.appointment, {
+    rating: req.body.rating,
+    scores,
+    comments: req.body.comments || undefined,
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Thank you for your feedback'
+  });
+}));
+
+export { router as feedbackRouter };
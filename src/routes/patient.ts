@@ -0,0 +1,269 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { Patient } from '../models/Patient.js';
+import { Appointment } from '../models/Appointment.js';
+import { Contact } from '../models/Contact.js';
+import { Subscriber } from '../models/Subscriber.js';
+import { PatientMerge } from '../models/PatientMerge.js';
+import { patientService } from '../services/patientService.js';
+import { patientMergeService, DuplicateMatch } from '../services/patientMergeService.js';
+import { attendanceService } from '../services/attendanceService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { normalizePhone, isPhoneNumber } from '../utils/contactDetails.js';
+
+const router = Router();
+
+// Adds the name, email and phone of both patients to each duplicate match
+const withPatients = async (matches: DuplicateMatch[]) => {
+  const ids = matches.flatMap(match => [match.patient, match.duplicate]);
+  const patients = await Patient.find({ _id: { $in: ids } }).select('name email phone createdAt');
+  const byId = new Map(patients.map(patient => [String(patient._id), patient]));
+  return matches.map(match => ({
+    ...match,
+    patient: byId.get(String(match.patient)),
+    duplicate: byId.get(String(match.duplicate)),
+  }));
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// GET /api/patients - List patients with search and pagination
+router.get('/', requireRole('receptionist', 'doctor'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const filter: any = {};
+  if (req.query.search) {
+    const search = escapeRegex(req.query.search as string);
+    const phone = normalizePhone(req.query.search as string);
+    const digits = (req.query.search as string).replace(/\D/g, '');
+    filter.$or = [
+      { name: { $regex: search, $options: 'i' } },
+      { email: { $regex: search, $options: 'i' } },
+      ...(phone ? [{ phone }, { otherPhones: phone }] : []),
+      ...(digits.length >= 4 ? [{ phone: { $regex: digits } }] : []),
+    ];
+  }
+
+  const [patients, total] = await Promise.all([
+    Patient.find(filter).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+    Patient.countDocuments(filter),
+  ]);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      patients,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+}));
+
+// GET /api/patients/duplicates - Likely duplicate pairs, best match first
+router.get('/duplicates', requireRole('receptionist'), [
+  query('minScore').optional().isFloat({ min: 0, max: 1 }).withMessage('minScore must be between 0 and 1'),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const matches = await patientMergeService.findDuplicates({
+    minScore: req.query.minScore !== undefined ? parseFloat(req.query.minScore as string) : undefined,
+    limit: parseInt(req.query.limit as string) || 50,
+  });
+
+  return res.status(200).json({
+    success: true,
+    data: { duplicates: await withPatients(matches) }
+  });
+}));
+
+// GET /api/patients/merges - Merge history, newest first
+router.get('/merges', requireRole('admin'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const [merges, total] = await Promise.all([
+    PatientMerge.find()
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('survivor', 'name email phone')
+      .populate('mergedBy', 'name email'),
+    PatientMerge.countDocuments(),
+  ]);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      merges,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+}));
+
+// POST /api/patients/merges/:mergeId/undo - Restore a merged patient and move its records back
+router.post('/merges/:mergeId/undo', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const merge = await patientMergeService.undo(req.params.mergeId, req.user!._id as Types.ObjectId);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Merge undone',
+    data: merge
+  });
+}));
+
+// GET /api/patients/:id - Patient details with counts and attendance
+router.get('/:id', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const patient = await Patient.findById(req.params.id);
+  if (!patient) throw createError('Patient not found', 404);
+
+  const [appointments, messages, subscribed] = await Promise.all([
+    Appointment.countDocuments({ patient: patient._id }),
+    Contact.countDocuments({ patient: patient._id }),
+    Subscriber.exists({ $or: [{ patient: patient._id }, { email: patient.email }] }),
+  ]);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      patient,
+      counts: { appointments, messages },
+      subscribed: !!subscribed,
+      attendance: await attendanceService.getRecord(patient.email),
+    }
+  });
+}));
+
+// GET /api/patients/:id/timeline - Appointments, messages, emails and subscription, oldest first
+router.get('/:id/timeline', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const patient = await Patient.findById(req.params.id);
+  if (!patient) throw createError('Patient not found', 404);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      patient,
+      timeline: await patientService.getTimeline(patient),
+    }
+  });
+}));
+
+// GET /api/patients/:id/duplicates - Likely duplicates of one patient
+router.get('/:id/duplicates', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const patient = await Patient.findById(req.params.id);
+  if (!patient) throw createError('Patient not found', 404);
+
+  const matches = await patientMergeService.findDuplicates({ patientId: String(patient._id), minScore: 0.3 });
+
+  return res.status(200).json({
+    success: true,
+    data: { duplicates: await withPatients(matches) }
+  });
+}));
+
+// POST /api/patients/:id/merge - Merge another patient into this one
+router.post('/:id/merge', requireRole('admin'), [
+  body('duplicateId').isMongoId().withMessage('Please provide the patient to merge'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const merge = await patientMergeService.merge(req.params.id, req.body.duplicateId, req.user!._id as Types.ObjectId);
+  const patient = await Patient.findById(req.params.id);
+
+  return res.status(200).json({
+    success: true,
+    message: `Merged ${merge.merged.email} into ${patient?.email}`,
+    data: { patient, merge }
+  });
+}));
+
+// PUT /api/patients/:id - Update a patient's name, phone or notes
+router.put('/:id', requireRole('receptionist'), [
+  body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+  body('phone').optional().trim().custom(isPhoneNumber),
+  body('notes').optional().trim().isLength({ max: 2000 }).withMessage('Notes cannot exceed 2000 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const patient = await Patient.findById(req.params.id);
+  if (!patient) throw createError('Patient not found', 404);
+
+  if (req.body.name !== undefined) patient.name = req.body.name;
+  if (req.body.phone !== undefined) patient.phone = normalizePhone(req.body.phone);
+  if (req.body.notes !== undefined) patient.notes = req.body.notes;
+  await patient.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Patient updated successfully',
+    data: patient
+  });
+}));
+
+export { router as patientRouter };
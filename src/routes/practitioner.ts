@@ -0,0 +1,334 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Practitioner } from '../models/Practitioner.js';
+import { CLOCK_TIME_PATTERN } from '../models/ClinicSchedule.js';
+import { Treatment } from '../models/Treatment.js';
+import { Appointment } from '../models/Appointment.js';
+import { practitionerService } from '../services/practitionerService.js';
+import { scheduleService } from '../services/scheduleService.js';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../services/availabilityService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { parseClockTime, parseTimeSlot, toDateKey, getDayRange } from '../utils/timeSlots.js';
+
+const router = Router();
+
+const practitionerValidation = (isUpdate: boolean) => {
+  const field = (name: string) => (isUpdate ? body(name).optional() : body(name));
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Name must be between 2 and 100 characters'),
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage('Title cannot exceed 100 characters'),
+    body('email')
+      .optional({ values: 'falsy' })
+      .isEmail()
+      .normalizeEmail()
+      .withMessage('Please provide a valid email address'),
+    body('phone')
+      .optional({ values: 'falsy' })
+      .matches(/^[\+]?[\d\s\-\(\)]+$/)
+      .withMessage('Please provide a valid phone number'),
+    body('user')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Invalid user'),
+    body('treatments')
+      .optional()
+      .isArray()
+      .withMessage('Treatments must be an array of treatment ids')
+      .bail()
+      .custom(async (ids: string[]) => {
+        const found = await Treatment.countDocuments({ _id: { $in: ids } });
+        if (found !== new Set(ids).size) throw new Error('One or more treatments do not exist');
+        return true;
+      }),
+    body('treatments.*')
+      .isMongoId()
+      .withMessage('Invalid treatment id'),
+    body('workingHours')
+      .optional()
+      .isArray()
+      .withMessage('Working hours must be an array')
+      .bail()
+      .custom((items: any[]) => {
+        const invalid = items.some(item =>
+          CLOCK_TIME_PATTERN.test(item?.startTime) &&
+          CLOCK_TIME_PATTERN.test(item?.endTime) &&
+          parseClockTime(item.startTime) >= parseClockTime(item.endTime)
+        );
+        if (invalid) throw new Error('startTime must be earlier than endTime');
+        return true;
+      }),
+    body('workingHours.*.dayOfWeek')
+      .isInt({ min: 0, max: 6 })
+      .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+    body('workingHours.*.startTime')
+      .matches(CLOCK_TIME_PATTERN)
+      .withMessage('Start time must be in HH:mm format'),
+    body('workingHours.*.endTime')
+      .matches(CLOCK_TIME_PATTERN)
+      .withMessage('End time must be in HH:mm format'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+  ];
+};
+
+const leaveValidation = [
+  body('date')
+    .isISO8601()
+    .withMessage('Please provide a valid date'),
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid end date')
+    .custom((value, { req }) => {
+      if (new Date(value) < new Date(req.body.date)) {
+        throw new Error('End date cannot be before the start date');
+      }
+      return true;
+    }),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+];
+
+// GET /api/practitioners - List active practitioners (public)
+router.get('/', [
+  query('treatmentType').optional().trim().isLength({ max: 100 }).withMessage('Invalid treatment type'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const filter: any = { isActive: true };
+  if (req.query.treatmentType) {
+    const treatment = await Treatment.findOne({ name: req.query.treatmentType });
+    if (!treatment) {
+      return res.status(200).json({ success: true, data: [] });
+    }
+    filter.treatments = treatment._id;
+  }
+
+  const practitioners = await Practitioner.find(filter)
+    .select('name title treatments workingHours')
+    .populate('treatments', 'name slug')
+    .sort({ name: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: practitioners
+  });
+}));
+
+// GET /api/practitioners/all - List every practitioner with contact details and leave
+router.get('/all', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const practitioners = await Practitioner.find()
+    .populate('treatments', 'name slug')
+    .sort({ isActive: -1, name: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: practitioners
+  });
+}));
+
+// GET /api/practitioners/:id/agenda - A practitioner's appointments and hours for one day
+router.get('/:id/agenda', requireRole('receptionist', 'doctor'), [
+  query('date').isISO8601().withMessage('Please provide a valid date'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const practitioner = await Practitioner.findById(req.params.id);
+  if (!practitioner) throw createError('Practitioner not found', 404);
+
+  const dateKey = toDateKey(req.query.date as string);
+  const { start, end } = getDayRange(dateKey);
+  const clinicDay = await scheduleService.getSlotsForDate(dateKey);
+
+  const appointments = await Appointment.find({
+    practitioner: practitioner._id,
+    status: { $ne: 'cancelled' },
+    $or: [
+      { confirmedDate: { $gte: start, $lt: end } },
+      { confirmedDate: null, preferredDate: { $gte: start, $lt: end } },
+    ],
+  });
+
+  const agenda = appointments
+    .map(appointment => ({
+      id: appointment._id,
+      referenceId: appointment.referenceId,
+      time: appointment.confirmedTime || appointment.preferredTime,
+      duration: appointment.duration,
+      name: appointment.name,
+      phone: appointment.phone,
+      treatmentType: appointment.treatmentType,
+      status: appointment.status,
+      notes: appointment.notes,
+    }))
+    .sort((a, b) => (parseTimeSlot(a.time) ?? 0) - (parseTimeSlot(b.time) ?? 0));
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      practitioner: { id: practitioner._id, name: practitioner.name, title: practitioner.title },
+      date: dateKey,
+      clinicOpen: clinicDay.isOpen,
+      leave: practitionerService.getLeaveForDate(practitioner, dateKey) || null,
+      workingHours: practitionerService.getWorkingHoursForDate(practitioner, dateKey),
+      appointments: agenda,
+    }
+  });
+}));
+
+// POST /api/practitioners - Add a practitioner
+router.post('/', requireRole('admin'), practitionerValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { name, title, email, phone, user, treatments, workingHours, isActive } = req.body;
+  const practitioner = await Practitioner.create({ name, title, email, phone, user, treatments, workingHours, isActive });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Practitioner created successfully',
+    data: practitioner
+  });
+}));
+
+// PUT /api/practitioners/:id - Update a practitioner's details, treatments or working hours
+router.put('/:id', requireRole('admin'), practitionerValidation(true), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const practitioner = await Practitioner.findById(req.params.id);
+  if (!practitioner) throw createError('Practitioner not found', 404);
+
+  const allowedUpdates = ['name', 'title', 'email', 'phone', 'user', 'treatments', 'workingHours', 'isActive'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      practitioner.set(field, req.body[field]);
+    }
+  });
+
+  await practitioner.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Practitioner updated successfully',
+    data: practitioner
+  });
+}));
+
+// DELETE /api/practitioners/:id - Delete a practitioner who has never been booked
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const practitioner = await Practitioner.findById(req.params.id);
+  if (!practitioner) throw createError('Practitioner not found', 404);
+
+  const bookings = await Appointment.countDocuments({ practitioner: practitioner._id });
+  if (bookings > 0) {
+    throw createError('This practitioner has appointments; set isActive to false instead of deleting them', 409);
+  }
+
+  await practitioner.deleteOne();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Practitioner deleted successfully'
+  });
+}));
+
+// POST /api/practitioners/:id/leave - Add leave days
+router.post('/:id/leave', requireRole('receptionist'), leaveValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const practitioner = await Practitioner.findById(req.params.id);
+  if (!practitioner) throw createError('Practitioner not found', 404);
+
+  const { date, endDate, reason } = req.body;
+  const startDay = getDayRange(toDateKey(date)).start;
+  const endDay = endDate ? getDayRange(toDateKey(endDate)).start : undefined;
+
+  practitioner.leave.push({ date: startDay, endDate: endDay, reason });
+  await practitioner.save();
+
+  // Existing bookings keep their practitioner; report them so staff can reassign
+  const rangeEnd = getDayRange(toDateKey(endDay || startDay)).end;
+  const affectedAppointments = await Appointment.countDocuments({
+    practitioner: practitioner._id,
+    status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+    $or: [
+      { confirmedDate: { $gte: startDay, $lt: rangeEnd } },
+      { confirmedDate: null, preferredDate: { $gte: startDay, $lt: rangeEnd } },
+    ],
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Leave added successfully',
+    data: {
+      leave: practitioner.leave[practitioner.leave.length - 1],
+      affectedAppointments
+    }
+  });
+}));
+
+// DELETE /api/practitioners/:id/leave/:leaveId - Remove leave days
+router.delete('/:id/leave/:leaveId', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const practitioner = await Practitioner.findById(req.params.id);
+  if (!practitioner) throw createError('Practitioner not found', 404);
+
+  const leave = practitioner.leave.id(req.params.leaveId);
+  if (!leave) throw createError('Leave not found', 404);
+
+  leave.deleteOne();
+  await practitioner.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Leave removed successfully'
+  });
+}));
+
+export { router as practitionerRouter };
@@ -0,0 +1,163 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { PrivacyRequest, PRIVACY_REQUEST_TYPES } from '../models/PrivacyRequest.js';
+import { privacyService, PrivacyExportFormat } from '../services/privacyService.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { isPhoneNumber } from '../utils/contactDetails.js';
+
+const router = Router();
+
+// Identifiers travel in the body rather than the URL so they stay out of access logs
+const subjectValidation = [
+  body('email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address'),
+  body('phone')
+    .optional()
+    .trim()
+    .custom(isPhoneNumber),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+// POST /api/privacy/export - Download everything held about a person as JSON or CSV
+router.post('/export', requireRole('admin'), [
+  ...subjectValidation,
+  body('format')
+    .optional()
+    .isIn(['json', 'csv'])
+    .withMessage('Format must be json or csv'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const format: PrivacyExportFormat = req.body.format || 'json';
+  const exported = await privacyService.export(
+    { email: req.body.email, phone: req.body.phone },
+    format,
+    { userId: req.user!._id as Types.ObjectId, reason: req.body.reason }
+  );
+
+  const filename = `privacy-export-${exported.exportedAt.toISOString().slice(0, 10)}.${format}`;
+  res.set('Content-Disposition', `attachment; filename="${filename}"`);
+  res.set('Cache-Control', 'no-store');
+  if (format === 'csv') {
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    return res.status(200).send(privacyService.toCsv(exported));
+  }
+  return res.status(200).json(exported);
+}));
+
+// POST /api/privacy/erase - Delete or anonymise everything held about a person
+router.post('/erase', requireRole('admin'), [
+  ...subjectValidation,
+  body('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('dryRun must be true or false'),
+  body('confirm')
+    .if(body('dryRun').not().equals('true'))
+    .custom(value => value === true)
+    .withMessage('Set confirm to true to erase, or use dryRun to preview'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const summary = await privacyService.erase(
+    { email: req.body.email, phone: req.body.phone },
+    {
+      dryRun: req.body.dryRun === true || req.body.dryRun === 'true',
+      userId: req.user!._id as Types.ObjectId,
+      reason: req.body.reason,
+    }
+  );
+
+  return res.status(200).json({
+    success: true,
+    message: summary.dryRun ? 'Nothing was changed; this is what an erasure would do' : 'Personal data erased',
+    data: {
+      dryRun: summary.dryRun,
+      deleted: summary.deleted,
+      anonymised: summary.anonymised,
+      cancelledAppointments: summary.cancelledAppointments,
+      requestId: summary.request._id,
+    }
+  });
+}));
+
+// GET /api/privacy/requests - Log of export and erasure requests, newest first
+router.get('/requests', requireRole('admin'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('type').optional().isIn(PRIVACY_REQUEST_TYPES).withMessage('Invalid request type'),
+  query('email').optional().trim().isEmail().withMessage('Please provide a valid email address'),
+  query('phone').optional().trim().custom(isPhoneNumber),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const filter: any = {};
+  if (req.query.type) filter.type = req.query.type;
+  const hashes = privacyService.getSubjectHashes({
+    email: req.query.email as string | undefined,
+    phone: req.query.phone as string | undefined,
+  });
+  if (hashes.length > 0) filter.subjectHashes = { $in: hashes };
+
+  const [requests, total] = await Promise.all([
+    PrivacyRequest.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .select('-subjectHashes')
+      .populate('requestedBy', 'name email'),
+    PrivacyRequest.countDocuments(filter),
+  ]);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      requests,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+}));
+
+export { router as privacyRouter };
@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { ReplyTemplate, REPLY_TEMPLATE_TARGETS, REPLY_TEMPLATE_VARIABLES } from '../models/ReplyTemplate.js';
+import { Contact } from '../models/Contact.js';
+import { Appointment } from '../models/Appointment.js';
+import { replyTemplateService, ReplyTemplateDefinition } from '../services/replyTemplateService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+const templateValidation = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('name').trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+    body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+    field('target').isIn(REPLY_TEMPLATE_TARGETS).withMessage(`Target must be one of: ${REPLY_TEMPLATE_TARGETS.join(', ')}`),
+    body('subject').optional({ values: 'null' }).trim().isLength({ max: 200 }).withMessage('Subject cannot exceed 200 characters'),
+    field('body').trim().isLength({ min: 1, max: 10000 }).withMessage('Body must be between 1 and 10000 characters'),
+    body('isActive').optional().isBoolean().toBoolean().withMessage('isActive must be true or false'),
+  ];
+};
+
+// GET /api/reply-templates/variables - Placeholders each kind of template can use
+router.get('/variables', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: REPLY_TEMPLATE_VARIABLES
+  });
+}));
+
+// GET /api/reply-templates - List templates by name
+router.get('/', requireRole('receptionist'), [
+  query('target').optional().isIn(REPLY_TEMPLATE_TARGETS).withMessage('Invalid target'),
+  query('isActive').optional().isBoolean().withMessage('isActive must be true or false'),
+  query('search').optional().trim().isLength({ max: 100 }).withMessage('Search term too long'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const filter: any = {};
+  if (req.query.target) filter.target = req.query.target;
+  if (req.query.isActive) filter.isActive = req.query.isActive === 'true';
+  if (req.query.search) {
+    filter.$or = [
+      { name: { $regex: req.query.search, $options: 'i' } },
+      { description: { $regex: req.query.search, $options: 'i' } },
+    ];
+  }
+
+  const templates = await ReplyTemplate.find(filter).sort({ name: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: templates
+  });
+}));
+
+// GET /api/reply-templates/:id - Get a single template
+router.get('/:id', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const template = await replyTemplateService.findTemplate(req.params.id);
+
+  return res.status(200).json({
+    success: true,
+    data: template
+  });
+}));
+
+// POST /api/reply-templates - Create a template
+router.post('/', requireRole('receptionist'), templateValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const definition: ReplyTemplateDefinition = {
+    target: req.body.target,
+    subject: req.body.subject || undefined,
+    body: req.body.body,
+  };
+  replyTemplateService.validate(definition);
+
+  if (await ReplyTemplate.exists({ name: req.body.name })) {
+    throw createError('A reply template with this name already exists', 409);
+  }
+
+  const template = await ReplyTemplate.create({
+    ...definition,
+    name: req.body.name,
+    description: req.body.description,
+    isActive: req.body.isActive !== false,
+    createdBy: req.user!._id as Types.ObjectId,
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Reply template created',
+    data: template
+  });
+}));
+
+// PUT /api/reply-templates/:id - Update a template; isActive false retires it without losing its history
+router.put('/:id', requireRole('receptionist'), templateValidation(true), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const template = await replyTemplateService.findTemplate(req.params.id);
+  if (req.body.name !== undefined && req.body.name !== template.name && await ReplyTemplate.exists({ name: req.body.name })) {
+    throw createError('A reply template with this name already exists', 409);
+  }
+
+  const allowedUpdates = ['name', 'description', 'target', 'body', 'isActive'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      (template as any)[field] = req.body[field];
+    }
+  });
+  if (req.body.subject !== undefined) template.subject = req.body.subject || undefined;
+  replyTemplateService.validate(template);
+  template.updatedBy = req.user!._id as Types.ObjectId;
+  await template.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Reply template updated',
+    data: template
+  });
+}));
+
+// DELETE /api/reply-templates/:id - Delete a template; messages already sent keep its name
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const template = await replyTemplateService.findTemplate(req.params.id);
+  await template.deleteOne();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Reply template deleted'
+  });
+}));
+
+// POST /api/reply-templates/:id/preview - Fill a template from a contact or appointment without sending it
+router.post('/:id/preview', requireRole('receptionist'), [
+  body('contactId').optional().isMongoId().withMessage('Invalid contact'),
+  body('appointmentId').optional().isMongoId().withMessage('Invalid appointment'),
+  body('variables').optional().isObject().withMessage('Variables must be an object'),
+  body('variables.*').isString().trim().isLength({ max: 500 }).withMessage('Variable values cannot exceed 500 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const template = await replyTemplateService.findTemplate(req.params.id);
+  const recordId = template.target === 'contact' ? req.body.contactId : req.body.appointmentId;
+  if (!recordId) {
+    throw createError(`Give the ${template.target}Id to fill the template from`, 400);
+  }
+
+  let values;
+  if (template.target === 'contact') {
+    const contact = await Contact.findById(recordId);
+    if (!contact) throw createError('Contact not found', 404);
+    values = await replyTemplateService.getContactValues(contact, req.user!);
+  } else {
+    const appointment = await Appointment.findById(recordId);
+    if (!appointment) throw createError('Appointment not found', 404);
+    values = await replyTemplateService.getAppointmentValues(appointment, req.user!);
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: replyTemplateService.render(template, values, req.body.variables)
+  });
+}));
+
+export { router as replyTemplateRouter };
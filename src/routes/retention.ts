@@ -0,0 +1,171 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { RetentionPolicy, RETENTION_TARGETS, RETENTION_ACTIONS } from '../models/RetentionPolicy.js';
+import { retentionService, RetentionPolicyDefinition } from '../services/retentionService.js';
+import { jobScheduler } from '../services/jobScheduler.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+const definitionValidation = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('target').isIn(RETENTION_TARGETS).withMessage(`Target must be one of: ${RETENTION_TARGETS.join(', ')}`),
+    field('action').isIn(RETENTION_ACTIONS).withMessage(`Action must be one of: ${RETENTION_ACTIONS.join(', ')}`),
+    field('dateField').isString().trim().notEmpty().withMessage('Date field is required'),
+    field('afterDays').isInt({ min: 1 }).toInt().withMessage('afterDays must be a positive whole number'),
+    body('statuses').optional().isArray().withMessage('Statuses must be an array'),
+    body('statuses.*').optional().isString().trim(),
+  ];
+};
+
+const policyValidation = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name')).trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+  body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  body('enabled').optional().isBoolean().toBoolean().withMessage('enabled must be true or false'),
+  ...definitionValidation(optional),
+];
+
+const toDefinition = (source: any): RetentionPolicyDefinition => ({
+  target: source.target,
+  action: source.action,
+  dateField: source.dateField,
+  afterDays: source.afterDays,
+  statuses: source.statuses || [],
+});
+
+// GET /api/retention/policies - List retention policies with their last run
+router.get('/policies', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const policies = await RetentionPolicy.find().sort({ createdAt: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: policies
+  });
+}));
+
+// POST /api/retention/policies - Create a policy; it stays disabled unless enabled is true
+router.post('/policies', requireRole('admin'), policyValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const definition = toDefinition(req.body);
+  retentionService.validate(definition);
+
+  if (await RetentionPolicy.exists({ name: req.body.name })) {
+    throw createError('A retention policy with this name already exists', 409);
+  }
+
+  const policy = await RetentionPolicy.create({
+    ...definition,
+    name: req.body.name,
+    description: req.body.description,
+    enabled: req.body.enabled === true,
+    createdBy: req.user!._id as Types.ObjectId,
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Retention policy created',
+    data: policy
+  });
+}));
+
+// POST /api/retention/report - Dry run of an unsaved policy definition
+router.post('/report', requireRole('admin'), definitionValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: await retentionService.preview(toDefinition(req.body))
+  });
+}));
+
+// POST /api/retention/run - Run every enabled policy now
+router.post('/run', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const run = await jobScheduler.run('data-retention');
+
+  if (!run.ran) {
+    throw createError('Retention policies are already being applied by another process', 409);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Retention run completed',
+    data: run.result
+  });
+}));
+
+// GET /api/retention/policies/:id/report - Dry run showing what the policy would affect now
+router.get('/policies/:id/report', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const policy = await retentionService.findPolicy(req.params.id);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      policy,
+      ...(await retentionService.preview(policy)),
+    }
+  });
+}));
+
+// PUT /api/retention/policies/:id - Update a policy, including turning it on or off
+router.put('/policies/:id', requireRole('admin'), policyValidation(true), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const policy = await retentionService.findPolicy(req.params.id);
+  if (req.body.name !== undefined && req.body.name !== policy.name && await RetentionPolicy.exists({ name: req.body.name })) {
+    throw createError('A retention policy with this name already exists', 409);
+  }
+
+  const allowedUpdates = ['name', 'description', 'target', 'action', 'dateField', 'afterDays', 'statuses', 'enabled'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      (policy as any)[field] = req.body[field];
+    }
+  });
+  retentionService.validate(policy);
+  policy.updatedBy = req.user!._id as Types.ObjectId;
+  await policy.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Retention policy updated',
+    data: policy
+  });
+}));
+
+// DELETE /api/retention/policies/:id - Delete a policy
+router.delete('/policies/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const policy = await retentionService.findPolicy(req.params.id);
+  await policy.deleteOne();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Retention policy deleted'
+  });
+}));
+
+export { router as retentionRouter };
@@ -0,0 +1,231 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { CLOCK_TIME_PATTERN } from '../models/ClinicSchedule.js';
+import { Appointment } from '../models/Appointment.js';
+import { scheduleService } from '../services/scheduleService.js';
+import { ACTIVE_APPOINTMENT_STATUSES } from '../services/availabilityService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { parseClockTime, toDateKey, getDayRange } from '../utils/timeSlots.js';
+
+const router = Router();
+
+// Every { start, end } pair in the array must describe a non-empty time range
+const hasValidRanges = (startField: string, endField: string) => (items: any[]) => {
+  const invalid = items.some(item =>
+    CLOCK_TIME_PATTERN.test(item?.[startField]) &&
+    CLOCK_TIME_PATTERN.test(item?.[endField]) &&
+    parseClockTime(item[startField]) >= parseClockTime(item[endField])
+  );
+  if (invalid) throw new Error(`${startField} must be earlier than ${endField}`);
+  return true;
+};
+
+const scheduleUpdateValidation = [
+  body('slotLength')
+    .optional()
+    .isInt({ min: 15, max: 240 })
+    .withMessage('Slot length must be between 15 and 240 minutes'),
+  body('weeklyHours')
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage('Weekly hours must be an array of up to 7 days')
+    .bail()
+    .custom(hasValidRanges('openTime', 'closeTime')),
+  body('weeklyHours.*.dayOfWeek')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Day of week must be between 0 (Sunday) and 6 (Saturday)'),
+  body('weeklyHours.*.isOpen')
+    .optional()
+    .isBoolean()
+    .withMessage('isOpen must be a boolean'),
+  body('weeklyHours.*.openTime')
+    .optional()
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('Opening time must be in HH:mm format'),
+  body('weeklyHours.*.closeTime')
+    .optional()
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('Closing time must be in HH:mm format'),
+  body('breaks')
+    .optional()
+    .isArray()
+    .withMessage('Breaks must be an array')
+    .bail()
+    .custom(hasValidRanges('startTime', 'endTime')),
+  body('breaks.*.label')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Break label cannot exceed 100 characters'),
+  body('breaks.*.startTime')
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('Break start must be in HH:mm format'),
+  body('breaks.*.endTime')
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('Break end must be in HH:mm format'),
+  body('breaks.*.daysOfWeek')
+    .optional()
+    .isArray()
+    .withMessage('Break days must be an array'),
+  body('breaks.*.daysOfWeek.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Break days must be between 0 (Sunday) and 6 (Saturday)'),
+];
+
+const closureValidation = [
+  body('date')
+    .isISO8601()
+    .withMessage('Please provide a valid date'),
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid end date')
+    .custom((value, { req }) => {
+      if (new Date(value) < new Date(req.body.date)) {
+        throw new Error('End date cannot be before the start date');
+      }
+      return true;
+    }),
+  body('startTime')
+    .optional()
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('Start time must be in HH:mm format')
+    .custom((value, { req }) => {
+      if (!req.body.endTime) throw new Error('End time is required when start time is set');
+      return true;
+    }),
+  body('endTime')
+    .optional()
+    .matches(CLOCK_TIME_PATTERN)
+    .withMessage('End time must be in HH:mm format')
+    .custom((value, { req }) => {
+      if (!req.body.startTime) throw new Error('Start time is required when end time is set');
+      if (parseClockTime(req.body.startTime) >= parseClockTime(value)) {
+        throw new Error('End time must be later than start time');
+      }
+      return true;
+    }),
+  body('reason')
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('Reason must be between 2 and 200 characters'),
+];
+
+// GET /api/schedule/slots - Get bookable slots for a date (public)
+router.get('/slots', [
+  query('date').isISO8601().withMessage('Please provide a valid date'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const day = await scheduleService.getSlotsForDate(toDateKey(req.query.date as string));
+
+  return res.status(200).json({
+    success: true,
+    data: day
+  });
+}));
+
+// GET /api/schedule - Get the clinic schedule configuration
+router.get('/', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduleService.getSchedule();
+
+  return res.status(200).json({
+    success: true,
+    data: schedule
+  });
+}));
+
+// PUT /api/schedule - Update opening hours, slot length and breaks
+router.put('/', requireRole('admin'), scheduleUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const schedule = await scheduleService.getSchedule();
+
+  const allowedUpdates = ['slotLength', 'weeklyHours', 'breaks'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      schedule.set(field, req.body[field]);
+    }
+  });
+
+  await schedule.save();
+
+  console.log(`🗓️ Clinic schedule updated by ${req.user!.email}`);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Schedule updated successfully',
+    data: schedule
+  });
+}));
+
+// POST /api/schedule/closures - Add a holiday, leave day or partial-day closure
+router.post('/closures', requireRole('receptionist'), closureValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { date, endDate, startTime, endTime, reason } = req.body;
+  const startDay = getDayRange(toDateKey(date)).start;
+  const endDay = endDate ? getDayRange(toDateKey(endDate)).start : undefined;
+
+  const schedule = await scheduleService.getSchedule();
+  schedule.closures.push({ date: startDay, endDate: endDay, startTime, endTime, reason });
+  await schedule.save();
+
+  // Existing bookings are left alone; report them so staff can reschedule
+  const rangeEnd = getDayRange(toDateKey(endDay || startDay)).end;
+  const affectedAppointments = await Appointment.countDocuments({
+    status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+    $or: [
+      { confirmedDate: { $gte: startDay, $lt: rangeEnd } },
+      { confirmedDate: null, preferredDate: { $gte: startDay, $lt: rangeEnd } },
+    ],
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Closure added successfully',
+    data: {
+      closure: schedule.closures[schedule.closures.length - 1],
+      affectedAppointments
+    }
+  });
+}));
+
+// DELETE /api/schedule/closures/:closureId - Remove a closure
+router.delete('/closures/:closureId', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await scheduleService.getSchedule();
+  const closure = schedule.closures.id(req.params.closureId);
+  if (!closure) throw createError('Closure not found', 404);
+
+  closure.deleteOne();
+  await schedule.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Closure removed successfully'
+  });
+}));
+
+export { router as scheduleRouter };
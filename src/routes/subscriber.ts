@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { body, validationResult, query } from 'express-validator';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { emailService } from '../services/emailService.js';
+import { requireRole } from '../middleware/auth.js';
+import { subscriberService } from '../services/subscriberService.js';
 import { Subscriber } from '../models/Subscriber.js';
+import { Patient } from '../models/Patient.js';
+import { normalizeEmail } from '../utils/contactDetails.js';
 
 const router = Router();
 
@@ -31,11 +34,15 @@ const getSubscribersValidation = [
     .optional()
     .trim()
     .isLength({ max: 100 })
-    .withMessage('Search query cannot exceed 100 characters')
+    .withMessage('Search query cannot exceed 100 characters'),
+  query('confirmed')
+    .optional()
+    .isBoolean()
+    .withMessage('confirmed must be true or false')
 ];
 
 // GET /api/subscriber - Get all subscribers with pagination
-router.get('/', getSubscribersValidation, asyncHandler(async (req: Request, res: Response) => {
+router.get('/', requireRole('content-editor'), getSubscribersValidation, asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
@@ -51,6 +58,9 @@ router.get('/', getSubscribersValidation, asyncHandler(async (req: Request, res:
   if (search) {
     query.email = { $regex: search, $options: 'i' };
   }
+  if (req.query.confirmed !== undefined) {
+    query.confirmedAt = req.query.confirmed === 'true' ? { $ne: null } : null;
+  }
 
   const totalItems = await Subscriber.countDocuments(query);
   const subscribers = await Subscriber.find(query)
@@ -88,19 +98,37 @@ router.post('/', subscribeValidation, asyncHandler(async (req: Request, res: Res
 
   // Upsert: avoid duplicate errors, return existing
   const existing = await Subscriber.findOne({ email });
-  if (existing) {
+  if (existing?.confirmedAt) {
     return res.status(200).json({ success: true, message: 'You are already subscribed.' });
   }
+  if (existing) {
+    await subscriberService.requestConfirmation(existing);
+    return res.status(200).json({ success: true, message: 'Please check your email to confirm your subscription.' });
+  }
 
-  const subscriber = new Subscriber({ email, source });
+  // Newsletter sign-ups do not create patients, but join an existing one
+  const patient = await Patient.findOne({ email: normalizeEmail(email) });
+  const subscriber = new Subscriber({ email, source, patient: patient?._id });
   await subscriber.save();
 
   // Fire-and-forget confirmation email; do not fail subscription on email error
-  emailService
-    .sendSubscriptionConfirmation(email)
-    .catch((err) => console.warn('⚠️ Failed to send subscription confirmation:', err));
+  subscriberService.requestConfirmation(subscriber);
+
+  return res.status(201).json({ success: true, message: 'Please check your email to confirm your subscription.' });
+}));
+
+// POST /api/subscriber/confirm - Confirm a subscription from the link in the confirmation email
+router.post('/confirm', [
+  body('token').isString().notEmpty().withMessage('Confirmation token is required'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+  }
+
+  await subscriberService.confirm(req.body.token);
 
-  return res.status(201).json({ success: true, message: 'Subscribed successfully.' });
+  return res.status(200).json({ success: true, message: 'Your subscription is confirmed.' });
 }));
 
 export { router as subscriberRouter };
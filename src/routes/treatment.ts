@@ -0,0 +1,223 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Treatment, TREATMENT_CATEGORIES } from '../models/Treatment.js';
+import { Appointment } from '../models/Appointment.js';
+import { treatmentService } from '../services/treatmentService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+
+const router = Router();
+
+const treatmentValidation = (isUpdate: boolean) => {
+  const field = (name: string) => (isUpdate ? body(name).optional() : body(name));
+  return [
+    field('name')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Name must be between 2 and 100 characters'),
+    body('slug')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .matches(/^[a-z0-9-]+$/)
+      .withMessage('Slug can only contain lowercase letters, numbers and dashes'),
+    field('category')
+      .isIn(TREATMENT_CATEGORIES)
+      .withMessage(`Category must be one of: ${TREATMENT_CATEGORIES.join(', ')}`),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage('Description cannot exceed 1000 characters'),
+    body('defaultDuration')
+      .optional()
+      .isInt({ min: 15, max: 480 })
+      .withMessage('Duration must be between 15 and 480 minutes'),
+    body('priceRange')
+      .optional({ values: 'null' })
+      .isObject()
+      .withMessage('Price range must be an object'),
+    body('priceRange.min')
+      .if(body('priceRange').exists({ values: 'null' }))
+      .isFloat({ min: 0 })
+      .withMessage('Minimum price must be a positive number'),
+    body('priceRange.max')
+      .if(body('priceRange').exists({ values: 'null' }))
+      .isFloat({ min: 0 })
+      .withMessage('Maximum price must be a positive number')
+      .custom((value, { req }) => {
+        if (Number(value) < Number(req.body.priceRange.min)) {
+          throw new Error('Maximum price cannot be less than minimum price');
+        }
+        return true;
+      }),
+    body('priceRange.currency')
+      .optional()
+      .isISO4217()
+      .withMessage('Invalid currency code'),
+    body('preparationInstructions')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Preparation instructions cannot exceed 2000 characters'),
+    body('isActive')
+      .optional()
+      .isBoolean()
+      .withMessage('isActive must be a boolean'),
+    body('sortOrder')
+      .optional()
+      .isInt()
+      .withMessage('Sort order must be an integer'),
+  ];
+};
+
+// GET /api/treatments - List active treatments (public)
+router.get('/', [
+  query('category').optional().isIn(TREATMENT_CATEGORIES).withMessage('Invalid category'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const filter: any = { isActive: true };
+  if (req.query.category) filter.category = req.query.category;
+
+  const treatments = await Treatment.find(filter).sort({ sortOrder: 1, name: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: treatments
+  });
+}));
+
+// GET /api/treatments/all - List every treatment including inactive ones
+router.get('/all', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const treatments = await Treatment.find().sort({ sortOrder: 1, name: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: treatments
+  });
+}));
+
+// GET /api/treatments/:slug - Get an active treatment by slug (public)
+router.get('/:slug', asyncHandler(async (req: Request, res: Response) => {
+  const treatment = await Treatment.findOne({ slug: req.params.slug, isActive: true });
+
+  if (!treatment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Treatment not found'
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: treatment
+  });
+}));
+
+// POST /api/treatments - Add a treatment to the catalog
+router.post('/', requireRole('admin'), treatmentValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const slug = req.body.slug || treatmentService.toSlug(req.body.name);
+  const exists = await Treatment.findOne({ $or: [{ name: req.body.name }, { slug }] });
+  if (exists) throw createError('A treatment with this name or slug already exists', 400);
+
+  const treatment = await Treatment.create({ ...req.body, slug });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Treatment created successfully',
+    data: treatment
+  });
+}));
+
+// PUT /api/treatments/:id - Update a treatment
+router.put('/:id', requireRole('admin'), treatmentValidation(true), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const treatment = await Treatment.findById(req.params.id);
+
+  if (!treatment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Treatment not found'
+    });
+  }
+
+  const previousName = treatment.name;
+  const allowedUpdates = [
+    'name', 'slug', 'category', 'description', 'defaultDuration',
+    'priceRange', 'preparationInstructions', 'isActive', 'sortOrder'
+  ];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      treatment.set(field, req.body[field]);
+    }
+  });
+
+  await treatment.save();
+
+  // Keep the denormalised name on existing bookings in step with a rename
+  if (treatment.name !== previousName) {
+    await Appointment.updateMany(
+      { $or: [{ treatment: treatment._id }, { treatment: null, treatmentType: previousName }] },
+      { $set: { treatmentType: treatment.name, treatment: treatment._id } }
+    );
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Treatment updated successfully',
+    data: treatment
+  });
+}));
+
+// DELETE /api/treatments/:id - Delete a treatment that has never been booked
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const treatment = await Treatment.findById(req.params.id);
+
+  if (!treatment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Treatment not found'
+    });
+  }
+
+  const bookings = await Appointment.countDocuments({
+    $or: [{ treatment: treatment._id }, { treatmentType: treatment.name }]
+  });
+  if (bookings > 0) {
+    throw createError('This treatment has appointments; set isActive to false instead of deleting it', 409);
+  }
+
+  await treatment.deleteOne();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Treatment deleted successfully'
+  });
+}));
+
+export { router as treatmentRouter };
@@ -0,0 +1,526 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { TreatmentPlan, TREATMENT_PLAN_STATUSES } from '../models/TreatmentPlan.js';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { treatmentPlanService, PlannedSession, SessionCheck } from '../services/treatmentPlanService.js';
+import { treatmentService } from '../services/treatmentService.js';
+import { availabilityService } from '../services/availabilityService.js';
+import { waitlistService } from '../services/waitlistService.js';
+import { appointmentService } from '../services/appointmentService.js';
+import { emailService } from '../services/emailService.js';
+import { calendarService } from '../services/calendarService.js';
+import { patientService } from '../services/patientService.js';
+import { triageService } from '../services/triageService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole, getStaffActor } from '../middleware/auth.js';
+import { isTimeSlotLabel, getDayRange, toDateKey } from '../utils/timeSlots.js';
+import { isPhoneNumber } from '../utils/contactDetails.js';
+
+const router = Router();
+
+const planValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  body('phone')
+    .trim()
+    .custom(isPhoneNumber),
+  body('treatmentType')
+    .isString()
+    .bail()
+    .custom(async (value) => {
+      if (!(await treatmentService.findActiveByName(value))) {
+        throw new Error('Please select a valid treatment type');
+      }
+      return true;
+    }),
+  body('totalSessions')
+    .isInt({ min: 2, max: 12 })
+    .withMessage('A plan must have between 2 and 12 sessions'),
+  body('intervalDays')
+    .isInt({ min: 1, max: 90 })
+    .withMessage('Interval must be between 1 and 90 days'),
+  body('startDate')
+    .isISO8601()
+    .withMessage('Please provide a valid start date'),
+  body('time')
+    .custom(isTimeSlotLabel),
+  body('practitioner')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid practitioner'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+  // Individual dates or times adjusted after a preview
+  body('sessions')
+    .optional()
+    .isArray()
+    .withMessage('Sessions must be an array')
+    .bail()
+    .custom((sessions: any[], { req }) => {
+      if (sessions.length !== Number(req.body.totalSessions)) {
+        throw new Error('Provide one entry per session');
+      }
+      return true;
+    }),
+  body('sessions.*.date')
+    .isISO8601()
+    .withMessage('Please provide a valid session date'),
+  body('sessions.*.time')
+    .custom(isTimeSlotLabel),
+];
+
+const rescheduleValidation = [
+  body('startDate')
+    .isISO8601()
+    .withMessage('Please provide a valid start date'),
+  body('time')
+    .optional()
+    .custom(isTimeSlotLabel),
+  body('intervalDays')
+    .optional()
+    .isInt({ min: 1, max: 90 })
+    .withMessage('Interval must be between 1 and 90 days'),
+  body('fromSession')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('fromSession must be a session number'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+const toSessionView = (check: SessionCheck) => ({
+  sessionNumber: check.sessionNumber,
+  date: check.date,
+  time: check.time,
+  available: check.available,
+  reason: check.reason,
+  practitioner: check.practitioner ? { id: check.practitioner._id, name: check.practitioner.name } : undefined,
+  alternatives: check.alternatives,
+});
+
+// Proposed sessions for a create or preview request, with any per-session adjustments applied
+const getProposedSessions = (req: Request): PlannedSession[] => {
+  const { startDate, time, totalSessions, intervalDays, sessions } = req.body;
+  if (Array.isArray(sessions)) {
+    return sessions.map((session: { date: string; time: string }, index: number) => ({
+      sessionNumber: index + 1,
+      date: getDayRange(toDateKey(session.date)).start,
+      time: session.time,
+    }));
+  }
+  return treatmentPlanService.buildSchedule(startDate, time, Number(totalSessions), Number(intervalDays));
+};
+
+const checkProposedSessions = async (req: Request) => {
+  const treatment = (await treatmentService.findActiveByName(req.body.treatmentType))!;
+  const checks = await treatmentPlanService.checkSchedule(getProposedSessions(req), {
+    duration: treatment.defaultDuration,
+    treatment: treatment._id as Types.ObjectId,
+    treatmentType: treatment.name,
+    practitioner: req.body.practitioner,
+  });
+  return { treatment, checks };
+};
+
+// POST /api/treatment-plans/preview - Check availability for every session of a proposed plan
+router.post('/preview', requireRole('receptionist'), planValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { checks } = await checkProposedSessions(req);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      available: checks.every(check => check.available),
+      sessions: checks.map(toSessionView),
+    }
+  });
+}));
+
+// POST /api/treatment-plans - Create a plan and book all of its sessions
+router.post('/', requireRole('receptionist'), planValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { name, email, phone, totalSessions, intervalDays, startDate, time, practitioner, notes } = req.body;
+  const actor = getStaffActor(req);
+  const dateKeys = getProposedSessions(req).map(session => toDateKey(session.date));
+
+  // Every session is checked and booked while its day is locked, so no other booking can take a slot in between
+  const booking = await availabilityService.withDayLocks(dateKeys, async () => {
+    const { treatment, checks } = await checkProposedSessions(req);
+    if (!checks.every(check => check.available)) return { treatment, checks };
+
+    const plan = new TreatmentPlan({
+      name,
+      email,
+      phone,
+      treatmentType: treatment.name,
+      treatment: treatment._id,
+      practitioner,
+      totalSessions,
+      intervalDays,
+      startDate: getDayRange(toDateKey(startDate)).start,
+      time,
+      notes,
+      createdBy: req.user!._id,
+    });
+
+    const patient = await patientService.resolveId({ name, email, phone });
+    const sessions = [];
+    for (const check of checks) {
+      const appointment = new Appointment({
+        name,
+        email,
+        phone,
+        patient,
+        treatmentType: treatment.name,
+        treatment: treatment._id,
+        preferredDate: check.date,
+        preferredTime: check.time,
+        duration: treatment.defaultDuration,
+        practitioner: check.practitioner?._id,
+        treatmentPlan: plan._id,
+        sessionNumber: check.sessionNumber,
+        priority: 'medium',
+      });
+      appointment.transitionTo('confirmed', actor, `Session ${check.sessionNumber} of ${plan.totalSessions}`);
+      const triage = await triageService.apply('appointment', appointment, 'treatment-plan');
+      await appointment.validate(); // every session is validated before anything is saved
+      sessions.push({ appointment, triage });
+    }
+
+    // Without a transaction, a save that still fails takes the plan and the sessions saved so far with it
+    await plan.save();
+    try {
+      for (const { appointment } of sessions) {
+        await appointment.save();
+      }
+    } catch (error) {
+      await Appointment.deleteMany({ treatmentPlan: plan._id })
+        .catch(cleanupError => console.warn(`⚠️ Failed to remove the sessions of treatment plan ${plan._id}:`, cleanupError));
+      await plan.deleteOne()
+        .catch(cleanupError => console.warn(`⚠️ Failed to remove treatment plan ${plan._id}:`, cleanupError));
+      throw error;
+    }
+    return { treatment, checks, plan, sessions };
+  });
+
+  const { treatment, checks, plan } = booking;
+  if (!plan) {
+    return res.status(409).json({
+      success: false,
+      message: 'Some sessions cannot be booked at the requested times',
+      data: { sessions: checks.map(toSessionView) },
+    });
+  }
+
+  const sessions = [];
+  for (const { appointment, triage } of booking.sessions) {
+    await triageService.notify(triage, appointment);
+    sessions.push(appointment);
+  }
+
+  try {
+    await emailService.sendTreatmentPlanUpdate({
+      name,
+      email,
+      treatmentType: treatment.name,
+      kind: 'created',
+      totalSessions: plan.totalSessions,
+      sessions: checks.map(check => ({ sessionNumber: check.sessionNumber, date: check.date.toISOString(), time: check.time })),
+      treatment,
+      calendar: calendarService.buildPatientCalendar(sessions, `${treatment.name} plan`),
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send treatment plan email:', emailError);
+  }
+
+  console.log(`🗂️ Treatment plan created for ${name} (${email}) - ${plan.totalSessions} x ${treatment.name}`);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Treatment plan created and all sessions booked',
+    data: {
+      plan,
+      progress: treatmentPlanService.getProgress(plan, sessions),
+      sessions,
+    }
+  });
+}));
+
+// GET /api/treatment-plans - List treatment plans with progress
+router.get('/', requireRole('receptionist', 'doctor'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().isIn(TREATMENT_PLAN_STATUSES).withMessage('Invalid status'),
+  query('email').optional().isEmail().normalizeEmail().withMessage('Invalid email'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const filter: any = {};
+  if (req.query.status) filter.status = req.query.status;
+  if (req.query.email) filter.email = req.query.email;
+
+  const plans = await TreatmentPlan.find(filter)
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit);
+
+  const sessions = await Appointment.find({ treatmentPlan: { $in: plans.map(plan => plan._id) } }).sort({ sessionNumber: 1 });
+  const items = plans.map(plan => ({
+    ...plan.toJSON(),
+    progress: treatmentPlanService.getProgress(
+      plan,
+      sessions.filter(session => String(session.treatmentPlan) === String(plan._id))
+    ),
+  }));
+
+  const total = await TreatmentPlan.countDocuments(filter);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      plans: items,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    }
+  });
+}));
+
+// GET /api/treatment-plans/:id - Get a plan with its sessions and progress
+router.get('/:id', requireRole('receptionist', 'doctor'), asyncHandler(async (req: Request, res: Response) => {
+  const plan = await TreatmentPlan.findById(req.params.id);
+  if (!plan) throw createError('Treatment plan not found', 404);
+
+  const sessions = await treatmentPlanService.getSessions(plan._id as Types.ObjectId);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      plan,
+      progress: treatmentPlanService.getProgress(plan, sessions),
+      sessions,
+    }
+  });
+}));
+
+// POST /api/treatment-plans/:id/reschedule - Move the remaining sessions to new dates in one go
+router.post('/:id/reschedule', requireRole('receptionist'), rescheduleValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const plan = await TreatmentPlan.findById(req.params.id);
+  if (!plan) throw createError('Treatment plan not found', 404);
+  if (plan.status !== 'active') throw createError(`This treatment plan is ${plan.status}`, 409);
+
+  const sessions = await treatmentPlanService.getSessions(plan._id as Types.ObjectId);
+  const remaining = treatmentPlanService.getRemainingSessions(sessions, Number(req.body.fromSession) || 1);
+  if (remaining.length === 0) throw createError('There are no remaining sessions to reschedule', 409);
+
+  const time: string = req.body.time || plan.time;
+  const intervalDays = Number(req.body.intervalDays) || plan.intervalDays;
+  const proposed = treatmentPlanService
+    .buildSchedule(req.body.startDate, time, remaining.length, intervalDays)
+    .map((session, index) => ({
+      ...session,
+      sessionNumber: remaining[index].sessionNumber!,
+      appointmentId: String(remaining[index]._id),
+    }));
+
+  const treatment = await treatmentService.getForAppointment(plan);
+  const actor = getStaffActor(req);
+  const moved: Array<{ appointment: IAppointment; previous: { date: Date; time: string } }> = [];
+  const checks = await availabilityService.withDayLocks(proposed.map(session => toDateKey(session.date)), async () => {
+    const sessionChecks = await treatmentPlanService.checkSchedule(proposed, {
+      duration: remaining[0].duration,
+      treatment: treatment?._id as Types.ObjectId | undefined,
+      treatmentType: plan.treatmentType,
+      practitioner: plan.practitioner ? String(plan.practitioner) : undefined,
+      excludeAppointmentIds: remaining.map(appointment => String(appointment._id)),
+    });
+    if (!sessionChecks.every(check => check.available)) return sessionChecks;
+
+    // Each session moves the way a single reschedule does, so it gets its own rescheduleHistory entry
+    for (const [index, appointment] of remaining.entries()) {
+      const check = sessionChecks[index];
+      const unchanged = toDateKey(appointment.confirmedDate || appointment.preferredDate) === toDateKey(check.date)
+        && (appointment.confirmedTime || appointment.preferredTime) === check.time;
+      if (unchanged) continue;
+
+      const previous = appointmentService.applyMove(
+        appointment,
+        { date: check.date, time: check.time, actor, reason: req.body.reason },
+        check.practitioner
+      );
+      await appointment.save();
+      moved.push({ appointment, previous });
+    }
+    return sessionChecks;
+  });
+  if (!checks.every(check => check.available)) {
+    return res.status(409).json({
+      success: false,
+      message: 'Some sessions cannot be moved to the requested times',
+      data: { sessions: checks.map(toSessionView) },
+    });
+  }
+
+  plan.time = time;
+  plan.intervalDays = intervalDays;
+  await plan.save();
+
+  for (const { appointment, previous } of moved) {
+    await appointmentService.completeMove(appointment, previous);
+  }
+
+  try {
+    await emailService.sendTreatmentPlanUpdate({
+      name: plan.name,
+      email: plan.email,
+      treatmentType: plan.treatmentType,
+      kind: 'rescheduled',
+      totalSessions: plan.totalSessions,
+      sessions: checks.map(check => ({ sessionNumber: check.sessionNumber, date: check.date.toISOString(), time: check.time })),
+      treatment,
+      calendar: calendarService.buildPatientCalendar(remaining, `${plan.treatmentType} plan`),
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send treatment plan email:', emailError);
+  }
+
+  const updatedSessions = await treatmentPlanService.getSessions(plan._id as Types.ObjectId);
+
+  return res.status(200).json({
+    success: true,
+    message: `${moved.length} session(s) rescheduled`,
+    data: {
+      plan,
+      progress: treatmentPlanService.getProgress(plan, updatedSessions),
+      sessions: updatedSessions,
+    }
+  });
+}));
+
+// POST /api/treatment-plans/:id/cancel - Cancel the plan and every session still to come
+router.post('/:id/cancel', requireRole('receptionist'), [
+  body('reason')
+    .trim()
+    .isLength({ min: 2, max: 500 })
+    .withMessage('Reason must be between 2 and 500 characters'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const plan = await TreatmentPlan.findById(req.params.id);
+  if (!plan) throw createError('Treatment plan not found', 404);
+  if (plan.status !== 'active') throw createError(`This treatment plan is ${plan.status}`, 409);
+
+  const reason: string = req.body.reason;
+  const actor = getStaffActor(req);
+  const sessions = await treatmentPlanService.getSessions(plan._id as Types.ObjectId);
+  const remaining = treatmentPlanService.getRemainingSessions(sessions);
+
+  for (const appointment of remaining) {
+    appointment.transitionTo('cancelled', actor, reason);
+    appointment.cancelledReason = reason;
+    await appointment.save();
+    await waitlistService.offerFreedSlot(appointment);
+  }
+
+  plan.status = 'cancelled';
+  plan.cancelledAt = new Date();
+  plan.cancelledReason = reason;
+  await plan.save();
+
+  if (remaining.length > 0) {
+    try {
+      await emailService.sendTreatmentPlanUpdate({
+        name: plan.name,
+        email: plan.email,
+        treatmentType: plan.treatmentType,
+        kind: 'cancelled',
+        totalSessions: plan.totalSessions,
+        sessions: remaining.map(appointment => ({
+          sessionNumber: appointment.sessionNumber!,
+          date: (appointment.confirmedDate || appointment.preferredDate).toISOString(),
+          time: appointment.confirmedTime || appointment.preferredTime,
+        })),
+        reason,
+        calendar: calendarService.buildPatientCalendar(remaining, `${plan.treatmentType} plan`),
+      });
+    } catch (emailError) {
+      console.warn('⚠️ Failed to send treatment plan email:', emailError);
+    }
+  }
+
+  console.log(`❌ Treatment plan ${plan._id} cancelled; ${remaining.length} session(s) cancelled`);
+
+  return res.status(200).json({
+    success: true,
+    message: `Treatment plan cancelled; ${remaining.length} session(s) cancelled`,
+    data: {
+      plan,
+      progress: treatmentPlanService.getProgress(plan, sessions),
+      sessions,
+    }
+  });
+}));
+
+export { router as treatmentPlanRouter };
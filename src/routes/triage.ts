@@ -0,0 +1,214 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { TriageRule, TRIAGE_TARGETS, TRIAGE_PRIORITIES, TriageTarget } from '../models/TriageRule.js';
+import { triageService, TriageRuleDefinition, TriageInput } from '../services/triageService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { getSlotStart, isTimeSlotLabel } from '../utils/timeSlots.js';
+
+const router = Router();
+
+const ruleValidation = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('name').trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+    body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+    field('target').isIn(TRIAGE_TARGETS).withMessage(`Target must be one of: ${TRIAGE_TARGETS.join(', ')}`),
+    body('order').optional().isInt().toInt().withMessage('Order must be a whole number'),
+    body('enabled').optional().isBoolean().toBoolean().withMessage('enabled must be true or false'),
+    body('conditions').optional().isObject().withMessage('Conditions must be an object'),
+    body('conditions.keywords').optional().isArray().withMessage('Keywords must be an array'),
+    body('conditions.keywords.*').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Keywords must be 1 to 100 characters'),
+    body('conditions.treatmentTypes').optional().isArray().withMessage('Treatment types must be an array'),
+    body('conditions.treatmentTypes.*').isString().trim().notEmpty().withMessage('Treatment types cannot be empty'),
+    body('conditions.sources').optional().isArray().withMessage('Sources must be an array'),
+    body('conditions.sources.*').isString().trim(),
+    body('conditions.minHoursUntilStart').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat().withMessage('minHoursUntilStart must be 0 or more'),
+    body('conditions.maxHoursUntilStart').optional({ values: 'null' }).isFloat({ min: 0 }).toFloat().withMessage('maxHoursUntilStart must be 0 or more'),
+    body('actions').optional().isObject().withMessage('Actions must be an object'),
+    body('actions.priority').optional({ values: 'null' }).isIn(TRIAGE_PRIORITIES).withMessage('Invalid priority'),
+    body('actions.tags').optional().isArray().withMessage('Tags must be an array'),
+    body('actions.tags.*').isString().trim().notEmpty().withMessage('Tags cannot be empty'),
+    body('actions.assignedTo').optional({ values: 'null' }).trim().isLength({ max: 100 }).withMessage('Assigned to cannot exceed 100 characters'),
+    body('actions.notifyEmails').optional().isArray().withMessage('notifyEmails must be an array'),
+    body('actions.notifyEmails.*').isEmail().withMessage('notifyEmails must be valid email addresses'),
+  ];
+};
+
+const toConditions = (source: any = {}) => ({
+  keywords: source.keywords || [],
+  treatmentTypes: source.treatmentTypes || [],
+  sources: source.sources || [],
+  minHoursUntilStart: source.minHoursUntilStart ?? undefined,
+  maxHoursUntilStart: source.maxHoursUntilStart ?? undefined,
+});
+
+const toActions = (source: any = {}) => ({
+  priority: source.priority || undefined,
+  tags: source.tags || [],
+  assignedTo: source.assignedTo || undefined,
+  notifyEmails: source.notifyEmails || [],
+});
+
+// GET /api/triage/rules - List triage rules in evaluation order
+router.get('/rules', requireRole('admin'), [
+  query('target').optional().isIn(TRIAGE_TARGETS).withMessage('Invalid target'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const filter = req.query.target ? { target: req.query.target } : {};
+  const rules = await TriageRule.find(filter).sort({ target: 1, order: 1, createdAt: 1 });
+
+  return res.status(200).json({
+    success: true,
+    data: rules
+  });
+}));
+
+// POST /api/triage/rules - Create a rule; it is enabled unless enabled is false
+router.post('/rules', requireRole('admin'), ruleValidation(false), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const definition: TriageRuleDefinition = {
+    target: req.body.target,
+    conditions: toConditions(req.body.conditions),
+    actions: toActions(req.body.actions),
+  };
+  triageService.validate(definition);
+
+  if (await TriageRule.exists({ name: req.body.name })) {
+    throw createError('A triage rule with this name already exists', 409);
+  }
+
+  const rule = await TriageRule.create({
+    ...definition,
+    name: req.body.name,
+    description: req.body.description,
+    order: req.body.order ?? 0,
+    enabled: req.body.enabled !== false,
+    createdBy: req.user!._id as Types.ObjectId,
+  });
+
+  return res.status(201).json({
+    success: true,
+    message: 'Triage rule created',
+    data: rule
+  });
+}));
+
+// POST /api/triage/test - Which rules would match a sample contact or appointment; changes nothing
+router.post('/test', requireRole('admin'), [
+  body('target').isIn(TRIAGE_TARGETS).withMessage(`Target must be one of: ${TRIAGE_TARGETS.join(', ')}`),
+  body('includeDisabled').optional().isBoolean().toBoolean().withMessage('includeDisabled must be true or false'),
+  body('sample').isObject().withMessage('Sample must be an object'),
+  body('sample.subject').optional().isString(),
+  body('sample.message').optional().isString(),
+  body('sample.treatmentType').optional().isString().trim(),
+  body('sample.source').optional().isString().trim(),
+  body('sample.preferredDate').optional().isISO8601().withMessage('preferredDate must be a valid date'),
+  body('sample.preferredTime').optional().custom(isTimeSlotLabel),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const target: TriageTarget = req.body.target;
+  const { sample } = req.body;
+  const input: TriageInput = {
+    subject: sample.subject,
+    message: sample.message,
+    treatmentType: sample.treatmentType,
+    source: sample.source || (target === 'contact' ? 'form' : 'booking'),
+    startsAt: sample.preferredDate ? getSlotStart(sample.preferredDate, sample.preferredTime || '12:00 AM') : null,
+  };
+
+  const now = new Date();
+  const rules = await triageService.getRules(target, { includeDisabled: req.body.includeDisabled === true });
+  const checks = rules.map(rule => ({ rule, ...triageService.checkRule(rule, input, now) }));
+  const matched = checks.filter(check => check.matched && check.rule.enabled).map(check => check.rule);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      input,
+      matched: matched.map(rule => ({ _id: rule._id, name: rule.name, actions: rule.actions })),
+      outcome: triageService.combine(matched),
+      rules: checks.map(check => ({
+        _id: check.rule._id,
+        name: check.rule.name,
+        enabled: check.rule.enabled,
+        matched: check.matched,
+        conditions: check.conditions,
+      })),
+    }
+  });
+}));
+
+// PUT /api/triage/rules/:id - Update a rule, including turning it on or off
+router.put('/rules/:id', requireRole('admin'), ruleValidation(true), asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const rule = await triageService.findRule(req.params.id);
+  if (req.body.name !== undefined && req.body.name !== rule.name && await TriageRule.exists({ name: req.body.name })) {
+    throw createError('A triage rule with this name already exists', 409);
+  }
+
+  const allowedUpdates = ['name', 'description', 'target', 'order', 'enabled'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      (rule as any)[field] = req.body[field];
+    }
+  });
+  // Conditions and actions are replaced as a whole
+  if (req.body.conditions !== undefined) rule.conditions = toConditions(req.body.conditions);
+  if (req.body.actions !== undefined) rule.actions = toActions(req.body.actions);
+  triageService.validate(rule);
+  rule.updatedBy = req.user!._id as Types.ObjectId;
+  await rule.save();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Triage rule updated',
+    data: rule
+  });
+}));
+
+// DELETE /api/triage/rules/:id - Delete a rule
+router.delete('/rules/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const rule = await triageService.findRule(req.params.id);
+  await rule.deleteOne();
+
+  return res.status(200).json({
+    success: true,
+    message: 'Triage rule deleted'
+  });
+}));
+
+export { router as triageRouter };
@@ -0,0 +1,147 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { User, STAFF_ROLES } from '../models/User.js';
+import { authService } from '../services/authService.js';
+import { requireRole } from '../middleware/auth.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+// Every route here is admin-only
+router.use(requireRole('admin'));
+
+const createUserValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  body('password')
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters'),
+  body('role')
+    .isIn(STAFF_ROLES)
+    .withMessage('Invalid role'),
+];
+
+const updateUserValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('password')
+    .optional()
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Password must be between 8 and 128 characters'),
+  body('role')
+    .optional()
+    .isIn(STAFF_ROLES)
+    .withMessage('Invalid role'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+];
+
+// GET /api/users - List staff users
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const users = await User.find().sort({ createdAt: -1 });
+
+  return res.status(200).json({
+    success: true,
+    data: users
+  });
+}));
+
+// POST /api/users - Create a staff user
+router.post('/', createUserValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { name, email, password, role } = req.body;
+
+  const exists = await User.findOne({ email });
+  if (exists) throw createError('A user with this email already exists', 400);
+
+  const user = await User.create({ name, email, password, role });
+
+  return res.status(201).json({
+    success: true,
+    message: 'User created successfully',
+    data: user
+  });
+}));
+
+// PUT /api/users/:id - Update a staff user's name, role, password or active flag
+router.put('/:id', updateUserValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const user = await User.findById(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  const allowedUpdates = ['name', 'password', 'role', 'isActive'];
+  allowedUpdates.forEach(field => {
+    if (req.body[field] !== undefined) {
+      (user as any)[field] = req.body[field];
+    }
+  });
+
+  await user.save();
+
+  // Force re-login after a password change or deactivation
+  if (req.body.password !== undefined || req.body.isActive === false) {
+    await authService.revokeAllRefreshTokens(String(user._id));
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'User updated successfully',
+    data: user
+  });
+}));
+
+// DELETE /api/users/:id - Delete a staff user
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  if (String(req.user!._id) === req.params.id) {
+    throw createError('You cannot delete your own account', 400);
+  }
+
+  const user = await User.findByIdAndDelete(req.params.id);
+
+  if (!user) {
+    return res.status(404).json({
+      success: false,
+      message: 'User not found'
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'User deleted successfully'
+  });
+}));
+
+export { router as userRouter };
@@ -0,0 +1,381 @@
+import { Router, Request, Response } from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { Types } from 'mongoose';
+import { WaitlistEntry, IWaitlistEntry, WAITLIST_STATUSES } from '../models/WaitlistEntry.js';
+import { waitlistService } from '../services/waitlistService.js';
+import { treatmentService, DEFAULT_TREATMENT_DURATION } from '../services/treatmentService.js';
+import { availabilityService } from '../services/availabilityService.js';
+import { emailService } from '../services/emailService.js';
+import { linkService } from '../services/linkService.js';
+import { calendarService } from '../services/calendarService.js';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { requireRole } from '../middleware/auth.js';
+import { getDayRange, getSlotStart, isTimeSlotLabel, toDateKey, getClinicDateKey } from '../utils/timeSlots.js';
+import { isPhoneNumber, normalizePhone } from '../utils/contactDetails.js';
+
+const router = Router();
+
+// Longest date range a patient can wait for
+const MAX_RANGE_DAYS = 90;
+
+const startOfToday = () => getDayRange(getClinicDateKey()).start;
+
+const waitlistValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address'),
+  body('phone')
+    .trim()
+    .custom(isPhoneNumber),
+  body('treatmentType')
+    .isString()
+    .bail()
+    .custom(async (value) => {
+      if (!(await treatmentService.findActiveByName(value))) {
+        throw new Error('Please select a valid treatment type');
+      }
+      return true;
+    }),
+  body('dateFrom')
+    .isISO8601()
+    .withMessage('Please provide a valid start date')
+    .custom((value) => {
+      if (getDayRange(toDateKey(value)).start < startOfToday()) {
+        throw new Error('Start date cannot be in the past');
+      }
+      return true;
+    }),
+  body('dateTo')
+    .isISO8601()
+    .withMessage('Please provide a valid end date')
+    .custom((value, { req }) => {
+      const from = new Date(req.body.dateFrom);
+      const to = new Date(value);
+      if (to < from) throw new Error('End date cannot be before the start date');
+      if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        throw new Error(`The date range cannot be longer than ${MAX_RANGE_DAYS} days`);
+      }
+      return true;
+    }),
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Message must be less than 1000 characters'),
+];
+
+const waitlistUpdateValidation = [
+  body('status')
+    .optional()
+    .isIn(['waiting', 'cancelled'])
+    .withMessage('Status can only be set to waiting or cancelled'),
+  body('dateFrom')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid start date'),
+  body('dateTo')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid end date'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Notes cannot exceed 1000 characters'),
+];
+
+const toOfferView = (entry: IWaitlistEntry) => ({
+  name: entry.name,
+  treatmentType: entry.treatmentType,
+  status: entry.status,
+  date: entry.offer?.date,
+  time: entry.offer?.time,
+  expiresAt: entry.offer?.expiresAt,
+  canClaim: entry.status === 'offered' && !!entry.offer && entry.offer.expiresAt > new Date(),
+});
+
+const loadOfferEntry = async (token: string): Promise<IWaitlistEntry> => {
+  const entryId = linkService.verify(token, 'waitlist-claim');
+  if (!entryId) throw createError('This link is invalid or has expired', 401);
+
+  const entry = await WaitlistEntry.findById(entryId);
+  if (!entry) throw createError('Waitlist entry not found', 404);
+  return entry;
+};
+
+// POST /api/waitlist - Join the waitlist (public)
+router.post('/', waitlistValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const { name, email, phone, treatmentType, dateFrom, dateTo, message } = req.body;
+
+  const existing = await WaitlistEntry.findOne({
+    $or: [{ email }, { phone: normalizePhone(phone) }],
+    treatmentType,
+    status: { $in: ['waiting', 'offered'] },
+  });
+  if (existing) {
+    throw createError('You are already on the waitlist for this treatment', 409);
+  }
+
+  const treatment = await treatmentService.findActiveByName(treatmentType);
+  const entry = await WaitlistEntry.create({
+    name,
+    email,
+    phone,
+    treatmentType,
+    treatment: treatment?._id,
+    dateFrom: getDayRange(toDateKey(dateFrom)).start,
+    dateTo: getDayRange(toDateKey(dateTo)).start,
+    message,
+  });
+
+  try {
+    await emailService.sendWaitlistConfirmation({
+      name,
+      email,
+      treatmentType,
+      dateFrom: entry.dateFrom.toISOString(),
+      dateTo: entry.dateTo.toISOString(),
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send waitlist confirmation email:', emailError);
+  }
+
+  console.log(`📝 ${name} (${email}) joined the waitlist for ${treatmentType}`);
+
+  return res.status(201).json({
+    success: true,
+    message: "You're on the waitlist. We'll email you as soon as a slot opens up.",
+    data: {
+      id: entry._id,
+      treatmentType: entry.treatmentType,
+      dateFrom: entry.dateFrom,
+      dateTo: entry.dateTo,
+      status: entry.status,
+    }
+  });
+}));
+
+// GET /api/waitlist/claim/:token - View an offered slot (public)
+router.get('/claim/:token', asyncHandler(async (req: Request, res: Response) => {
+  const entry = await loadOfferEntry(req.params.token);
+
+  return res.status(200).json({
+    success: true,
+    data: toOfferView(entry)
+  });
+}));
+
+// POST /api/waitlist/claim/:token - Claim an offered slot, creating the appointment (public)
+router.post('/claim/:token', asyncHandler(async (req: Request, res: Response) => {
+  const entry = await loadOfferEntry(req.params.token);
+  const { appointment } = await waitlistService.claimOffer(String(entry._id));
+
+  try {
+    await emailService.sendAppointmentConfirmation({
+      name: appointment.name,
+      email: appointment.email,
+      treatmentType: appointment.treatmentType,
+      appointmentDate: appointment.confirmedDate!.toISOString(),
+      appointmentTime: appointment.confirmedTime!,
+      treatment: await treatmentService.getForAppointment(appointment),
+      manageUrl: linkService.getAppointmentManageUrl(String(appointment._id)),
+      calendarInvite: calendarService.buildInvite(appointment),
+    });
+  } catch (emailError) {
+    console.warn('⚠️ Failed to send appointment confirmation email:', emailError);
+  }
+
+  console.log(`✅ Waitlist offer claimed by ${appointment.email} - ${appointment.referenceId}`);
+
+  return res.status(201).json({
+    success: true,
+    message: 'Your appointment is confirmed.',
+    data: {
+      id: appointment._id,
+      referenceId: appointment.referenceId,
+      treatmentType: appointment.treatmentType,
+      date: appointment.confirmedDate,
+      time: appointment.confirmedTime,
+      status: appointment.status,
+    }
+  });
+}));
+
+// GET /api/waitlist - List waitlist entries
+router.get('/', requireRole('receptionist'), [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().isIn(WAITLIST_STATUSES).withMessage('Invalid status'),
+  query('treatmentType').optional().trim().isLength({ max: 100 }).withMessage('Invalid treatment type'),
+  query('date').optional().isISO8601().withMessage('Invalid date format'),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 10;
+  const skip = (page - 1) * limit;
+
+  const filter: any = {};
+  if (req.query.status) filter.status = req.query.status;
+  if (req.query.treatmentType) filter.treatmentType = req.query.treatmentType;
+  if (req.query.date) {
+    // Entries that would accept a slot on this day
+    const { start } = getDayRange(toDateKey(req.query.date as string));
+    filter.dateFrom = { $lte: start };
+    filter.dateTo = { $gte: start };
+  }
+
+  const entries = await WaitlistEntry.find(filter)
+    .sort({ createdAt: 1 })
+    .skip(skip)
+    .limit(limit)
+    .lean();
+
+  const total = await WaitlistEntry.countDocuments(filter);
+  const totalPages = Math.ceil(total / limit);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      entries,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    },
+  });
+}));
+
+// GET /api/waitlist/:id - Get a waitlist entry
+router.get('/:id', requireRole('receptionist'), asyncHandler(async (req: Request, res: Response) => {
+  const entry = await WaitlistEntry.findById(req.params.id);
+  if (!entry) throw createError('Waitlist entry not found', 404);
+
+  return res.status(200).json({
+    success: true,
+    data: entry
+  });
+}));
+
+// PUT /api/waitlist/:id - Update dates or notes, or take an entry off the waitlist
+router.put('/:id', requireRole('receptionist'), waitlistUpdateValidation, asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const entry = await WaitlistEntry.findById(req.params.id);
+  if (!entry) throw createError('Waitlist entry not found', 404);
+  if (entry.status === 'booked') throw createError('This entry has already been booked', 409);
+
+  if (req.body.dateFrom) entry.dateFrom = getDayRange(toDateKey(req.body.dateFrom)).start;
+  if (req.body.dateTo) entry.dateTo = getDayRange(toDateKey(req.body.dateTo)).start;
+  if (entry.dateTo < entry.dateFrom) throw createError('End date cannot be before the start date', 400);
+  if (req.body.notes !== undefined) entry.notes = req.body.notes;
+
+  // Withdrawing an open offer passes the slot on to the next patient
+  const withdrawnOffer = req.body.status && entry.status === 'offered' ? entry.offer : undefined;
+  if (req.body.status) {
+    entry.status = req.body.status;
+    entry.offer = undefined;
+  }
+
+  await entry.save();
+
+  if (withdrawnOffer) {
+    await waitlistService.offerSlot(withdrawnOffer, [entry._id as Types.ObjectId]);
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'Waitlist entry updated successfully',
+    data: entry
+  });
+}));
+
+// DELETE /api/waitlist/:id - Delete a waitlist entry
+router.delete('/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const entry = await WaitlistEntry.findByIdAndDelete(req.params.id);
+  if (!entry) throw createError('Waitlist entry not found', 404);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Waitlist entry deleted successfully'
+  });
+}));
+
+// POST /api/waitlist/:id/offer - Offer a specific free slot to a waiting patient
+router.post('/:id/offer', requireRole('receptionist'), [
+  body('date').isISO8601().withMessage('Please provide a valid date'),
+  body('time').custom(isTimeSlotLabel),
+], asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation failed',
+      errors: errors.array(),
+    });
+  }
+
+  const entry = await WaitlistEntry.findById(req.params.id);
+  if (!entry) throw createError('Waitlist entry not found', 404);
+  if (entry.status !== 'waiting') throw createError('Only waiting entries can be offered a slot', 409);
+
+  const date = getDayRange(toDateKey(req.body.date)).start;
+  const time: string = req.body.time;
+  const startsAt = getSlotStart(date, time);
+  if (!startsAt || startsAt <= new Date()) throw createError('Please choose a time in the future', 400);
+
+  const treatment = await treatmentService.getForAppointment(entry);
+  const slotCheck = await availabilityService.checkSlot(
+    toDateKey(date),
+    time,
+    treatment?.defaultDuration || DEFAULT_TREATMENT_DURATION,
+    undefined,
+    { treatment: treatment?._id as Types.ObjectId | undefined }
+  );
+  if (!slotCheck.available) {
+    throw createError(slotCheck.reason || 'The selected time slot is not available', 409);
+  }
+
+  const offered = await waitlistService.sendOffer(entry, { date, time });
+  if (!offered) throw createError('Only waiting entries can be offered a slot', 409);
+
+  return res.status(200).json({
+    success: true,
+    message: 'Offer sent to patient',
+    data: offered
+  });
+}));
+
+export { router as waitlistRouter };
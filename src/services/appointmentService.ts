@@ -0,0 +1,251 @@
+import { Types } from 'mongoose';
+import { Appointment, IAppointment, IAppointmentMessage, StatusActor } from '../models/Appointment.js';
+import { IUser } from '../models/User.js';
+import { IPractitioner } from '../models/Practitioner.js';
+import { IReplyTemplate } from '../models/ReplyTemplate.js';
+import { availabilityService, ACTIVE_APPOINTMENT_STATUSES } from './availabilityService.js';
+import { treatmentService, DEFAULT_TREATMENT_DURATION } from './treatmentService.js';
+import { emailService } from './emailService.js';
+import { linkService } from './linkService.js';
+import { calendarService } from './calendarService.js';
+import { waitlistService } from './waitlistService.js';
+import { replyTemplateService } from './replyTemplateService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { getSlotStart, toDateKey, getDayRange } from '../utils/timeSlots.js';
+
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface RescheduleRequest {
+  date: Date | string;
+  time: string;
+  actor: StatusActor;
+  reason?: string;
+  practitioner?: string; // staff may ask for a specific practitioner
+}
+
+export interface RescheduleResult {
+  appointment: IAppointment;
+  previous: { date: Date; time: string };
+}
+
+class AppointmentService {
+  // How many times a patient may move one appointment themselves; staff moves are not counted
+  getPatientRescheduleLimit(): number {
+    return Math.max(0, parseInt(process.env.MAX_PATIENT_RESCHEDULES || '2'));
+  }
+
+  getPatientRescheduleCount(appointment: IAppointment): number {
+    return appointment.rescheduleHistory.filter(entry => entry.rescheduledBy.kind === 'patient').length;
+  }
+
+  getPatientReschedulesRemaining(appointment: IAppointment): number {
+    return Math.max(0, this.getPatientRescheduleLimit() - this.getPatientRescheduleCount(appointment));
+  }
+
+  // Moves a pending or confirmed appointment to a free slot, records the move and notifies the patient
+  async reschedule(appointment: IAppointment, request: RescheduleRequest): Promise<RescheduleResult> {
+    if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      throw createError(`A ${appointment.status} appointment cannot be rescheduled`, 409);
+    }
+    if (request.actor.kind === 'patient' && this.getPatientReschedulesRemaining(appointment) === 0) {
+      throw createError('This appointment has already been rescheduled the maximum number of times. Please call the clinic.', 409);
+    }
+
+    const dateKey = toDateKey(request.date);
+    const newDate = getDayRange(dateKey).start;
+    const newStart = getSlotStart(newDate, request.time);
+    if (!newStart || newStart <= new Date()) {
+      throw createError('Please choose a time in the future', 400);
+    }
+
+    const previous = {
+      date: appointment.confirmedDate || appointment.preferredDate,
+      time: appointment.confirmedTime || appointment.preferredTime,
+    };
+    if (toDateKey(previous.date) === dateKey && previous.time === request.time) {
+      throw createError('The appointment is already booked for this time', 400);
+    }
+
+    await availabilityService.withDayLocks([dateKey], async () => {
+      const slotCheck = await availabilityService.checkSlot(
+        dateKey,
+        request.time,
+        appointment.duration,
+        String(appointment._id),
+        { treatment: appointment.treatment, practitioner: request.practitioner }
+      );
+      if (!slotCheck.available) {
+        throw createError(slotCheck.reason || 'The selected time slot is not available', 409);
+      }
+
+      this.applyMove(appointment, request, availabilityService.pickPractitioner(slotCheck, appointment.practitioner));
+      await appointment.save();
+    });
+
+    await this.completeMove(appointment, previous);
+
+    console.log(`🔁 Appointment ${appointment.referenceId} rescheduled by ${request.actor.kind} to ${dateKey} ${request.time}`);
+    return { appointment, previous };
+  }
+
+  /**
+   * Sets the new date and time and records the move in rescheduleHistory. The caller checks the slot first and
+   * saves while still holding the day lock. Returns the slot the appointment is leaving.
+   */
+  applyMove(appointment: IAppointment, request: RescheduleRequest, practitioner?: IPractitioner): { date: Date; time: string } {
+    const newDate = getDayRange(toDateKey(request.date)).start;
+    const previous = {
+      date: appointment.confirmedDate || appointment.preferredDate,
+      time: appointment.confirmedTime || appointment.preferredTime,
+    };
+
+    if (practitioner) appointment.practitioner = practitioner._id as Types.ObjectId;
+    // Confirmed bookings stay confirmed at the new time; pending requests just change their preference
+    if (appointment.status === 'confirmed') {
+      appointment.confirmedDate = newDate;
+      appointment.confirmedTime = request.time;
+    } else {
+      appointment.preferredDate = newDate;
+      appointment.preferredTime = request.time;
+    }
+    appointment.rescheduleHistory.push({
+      fromDate: previous.date,
+      fromTime: previous.time,
+      toDate: newDate,
+      toTime: request.time,
+      rescheduledAt: new Date(),
+      rescheduledBy: request.actor,
+      reason: request.reason,
+    });
+    return previous;
+  }
+
+  // After a move is saved: tells the patient and offers the slot it left to the waitlist
+  async completeMove(appointment: IAppointment, previous: { date: Date; time: string }): Promise<void> {
+    await this.sendRescheduleNotice(appointment);
+    await waitlistService.offerFreedSlot(appointment, previous);
+  }
+
+  // Updated confirmation (or request receipt, while still pending) with the new time
+  private async sendRescheduleNotice(appointment: IAppointment): Promise<void> {
+    const manageUrl = linkService.getAppointmentManageUrl(String(appointment._id));
+    const treatment = await treatmentService.getForAppointment(appointment);
+
+    try {
+      if (appointment.status === 'confirmed') {
+        await emailService.sendAppointmentConfirmation({
+          name: appointment.name,
+          email: appointment.email,
+          treatmentType: appointment.treatmentType,
+          appointmentDate: appointment.confirmedDate!.toISOString(),
+          appointmentTime: appointment.confirmedTime!,
+          treatment,
+          manageUrl,
+          rescheduled: true,
+          calendarInvite: calendarService.buildInvite(appointment),
+        });
+      } else {
+        await emailService.sendAppointmentRequestConfirmation({
+          name: appointment.name,
+          email: appointment.email,
+          phone: appointment.phone,
+          treatmentType: appointment.treatmentType,
+          preferredDate: appointment.preferredDate.toISOString(),
+          preferredTime: appointment.preferredTime,
+          message: appointment.message,
+          treatment,
+          manageUrl,
+        });
+      }
+    } catch (emailError) {
+      console.warn('⚠️ Failed to send reschedule confirmation email:', emailError);
+    }
+  }
+
+  // Emails the patient a message about the appointment and keeps a copy in its messages
+  async sendMessage(
+    appointment: IAppointment,
+    content: { subject: string; message: string },
+    user: IUser,
+    template?: IReplyTemplate
+  ): Promise<IAppointmentMessage> {
+    if (appointment.anonymisedAt) {
+      throw createError('This appointment has been anonymised and cannot be messaged about', 409);
+    }
+    if (!emailService.isEnabled()) {
+      throw createError('Email is not configured, so messages cannot be sent', 503);
+    }
+
+    let messageId: string | undefined;
+    try {
+      messageId = await emailService.sendAppointmentMessage({
+        name: appointment.name,
+        email: appointment.email,
+        subject: content.subject,
+        message: content.message,
+        staffName: user.name,
+        referenceId: appointment.referenceId,
+        treatmentType: appointment.treatmentType,
+        appointmentDate: (appointment.confirmedDate || appointment.preferredDate).toISOString(),
+        appointmentTime: appointment.confirmedTime || appointment.preferredTime,
+        manageUrl: ['pending', 'confirmed'].includes(appointment.status)
+          ? linkService.getAppointmentManageUrl(String(appointment._id))
+          : undefined,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to send message about appointment ${appointment.referenceId}:`, error);
+      throw createError('The message could not be sent; please try again', 502);
+    }
+
+    appointment.messages.push({
+      subject: content.subject,
+      body: content.message,
+      template: template?._id as Types.ObjectId | undefined,
+      templateName: template?.name,
+      messageId,
+      sentBy: user._id as Types.ObjectId,
+      sentByName: user.name,
+      sentAt: new Date(),
+    });
+    await appointment.save();
+    if (template) await replyTemplateService.recordUse(template);
+
+    console.log(`📧 Message sent to ${appointment.email} about ${appointment.referenceId} by ${user.name} - Subject: ${content.subject}`);
+    return appointment.messages[appointment.messages.length - 1];
+  }
+
+  // Fills in startsAt/endsAt on appointments saved before they were stored; safe to run on every start
+  async backfillStartTimes(): Promise<number> {
+    const cursor = Appointment.find({ startsAt: null })
+      .select('preferredDate preferredTime confirmedDate confirmedTime duration')
+      .lean()
+      .cursor();
+
+    let updated = 0;
+    let batch: Parameters<typeof Appointment.bulkWrite>[0] = [];
+    for await (const appointment of cursor) {
+      const startsAt = getSlotStart(
+        appointment.confirmedDate || appointment.preferredDate,
+        appointment.confirmedTime || appointment.preferredTime
+      );
+      if (!startsAt) continue;
+
+      const endsAt = new Date(startsAt.getTime() + (appointment.duration || DEFAULT_TREATMENT_DURATION) * 60 * 1000);
+      batch.push({ updateOne: { filter: { _id: appointment._id }, update: { $set: { startsAt, endsAt } } } });
+      if (batch.length >= BACKFILL_BATCH_SIZE) {
+        updated += (await Appointment.bulkWrite(batch)).modifiedCount;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      updated += (await Appointment.bulkWrite(batch)).modifiedCount;
+    }
+
+    if (updated > 0) {
+      console.log(`🕒 Backfilled start and end times on ${updated} appointment(s)`);
+    }
+    return updated;
+  }
+}
+
+export const appointmentService = new AppointmentService();
@@ -0,0 +1,122 @@
+import { Appointment } from '../models/Appointment.js';
+import { treatmentPlanService } from './treatmentPlanService.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Confirmed appointments that ended longer ago than this are left for staff to resolve by hand
+const NO_SHOW_LOOKBACK_DAYS = 7;
+
+export interface AttendanceRecord {
+  bookings: number;
+  completed: number;
+  noShows: number;
+  cancelled: number;
+  lateCancellations: number; // cancelled within LATE_CANCELLATION_HOURS of the start
+  upcoming: number;
+  requiresReconfirmation: boolean;
+}
+
+export interface NoShowRunSummary {
+  checked: number;
+  markedNoShow: number;
+}
+
+class AttendanceService {
+  getNoShowGraceMinutes(): number {
+    return Math.max(0, parseInt(process.env.NO_SHOW_GRACE_MINUTES || '30'));
+  }
+
+  getLateCancellationHours(): number {
+    return Math.max(0, parseFloat(process.env.LATE_CANCELLATION_HOURS || '24'));
+  }
+
+  // Patients with at least this many no-shows must reconfirm new bookings; 0 turns the policy off
+  getReconfirmationThreshold(): number {
+    return Math.max(0, parseInt(process.env.NO_SHOW_RECONFIRMATION_THRESHOLD || '2'));
+  }
+
+  // Attendance across every appointment booked with this email address
+  async getRecord(email: string): Promise<AttendanceRecord> {
+    const lateWindowMs = this.getLateCancellationHours() * HOUR_MS;
+    const [counts] = await Appointment.aggregate([
+      { $match: { email: email.toLowerCase() } },
+      {
+        $group: {
+          _id: null,
+          bookings: { $sum: 1 },
+          completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+          noShows: { $sum: { $cond: [{ $eq: ['$status', 'no-show'] }, 1, 0] } },
+          cancelled: { $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 1, 0] } },
+          lateCancellations: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    { $eq: ['$status', 'cancelled'] },
+                    { $gt: ['$startsAt', null] },
+                    { $gte: ['$cancelledAt', { $subtract: ['$startsAt', lateWindowMs] }] },
+                  ],
+                },
+                1,
+                0,
+              ],
+            },
+          },
+          upcoming: {
+            $sum: {
+              $cond: [
+                { $and: [{ $in: ['$status', ['pending', 'confirmed']] }, { $gt: ['$startsAt', new Date()] }] },
+                1,
+                0,
+              ],
+            },
+          },
+        },
+      },
+    ]);
+
+    const record = {
+      bookings: counts?.bookings || 0,
+      completed: counts?.completed || 0,
+      noShows: counts?.noShows || 0,
+      cancelled: counts?.cancelled || 0,
+      lateCancellations: counts?.lateCancellations || 0,
+      upcoming: counts?.upcoming || 0,
+    };
+    const threshold = this.getReconfirmationThreshold();
+    return { ...record, requiresReconfirmation: threshold > 0 && record.noShows >= threshold };
+  }
+
+  // Marks confirmed appointments as no-shows once they have ended (plus a grace period) without a check-in
+  async markNoShows(now: Date = new Date()): Promise<NoShowRunSummary> {
+    const cutoff = new Date(now.getTime() - this.getNoShowGraceMinutes() * MINUTE_MS);
+    const appointments = await Appointment.find({
+      status: 'confirmed',
+      checkedInAt: null,
+      endsAt: { $lte: cutoff, $gte: new Date(cutoff.getTime() - NO_SHOW_LOOKBACK_DAYS * DAY_MS) },
+    });
+
+    const summary: NoShowRunSummary = { checked: appointments.length, markedNoShow: 0 };
+    for (const appointment of appointments) {
+      try {
+        appointment.transitionTo('no-show', { kind: 'system' }, 'Not checked in by the end of the appointment');
+        await appointment.save();
+        summary.markedNoShow++;
+        if (appointment.treatmentPlan) {
+          await treatmentPlanService.syncStatus(appointment.treatmentPlan);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Failed to mark ${appointment.referenceId} as a no-show:`, error);
+      }
+    }
+
+    if (summary.markedNoShow > 0) {
+      console.log(`🚫 Marked ${summary.markedNoShow} appointment(s) as no-show`);
+    }
+    return summary;
+  }
+}
+
+export const attendanceService = new AttendanceService();
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User, IUser, StaffRole } from '../models/User.js';
+import { toFormEmail } from '../utils/contactDetails.js';
+
+export interface AccessTokenPayload {
+  sub: string;
+  role: StaffRole;
+  type: 'access';
+}
+
+interface RefreshTokenPayload {
+  sub: string;
+  type: 'refresh';
+  jti: string;
+}
+
+class AuthService {
+  private getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('JWT_SECRET is not set in environment');
+    }
+    return secret;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  signAccessToken(user: IUser): string {
+    const payload: AccessTokenPayload = { sub: String(user._id), role: user.role, type: 'access' };
+    return jwt.sign(payload, this.getSecret(), {
+      expiresIn: (process.env.JWT_EXPIRE || '15m') as jwt.SignOptions['expiresIn'],
+    });
+  }
+
+  verifyAccessToken(token: string): AccessTokenPayload {
+    const payload = jwt.verify(token, this.getSecret()) as AccessTokenPayload;
+    if (payload.type !== 'access') {
+      throw new Error('Invalid token type');
+    }
+    return payload;
+  }
+
+  // Issues a refresh token and stores its hash on the user so it can be revoked
+  async issueRefreshToken(user: IUser): Promise<string> {
+    const payload: RefreshTokenPayload = {
+      sub: String(user._id),
+      type: 'refresh',
+      jti: crypto.randomBytes(16).toString('hex'),
+    };
+    const token = jwt.sign(payload, this.getSecret(), {
+      expiresIn: (process.env.JWT_REFRESH_EXPIRE || '30d') as jwt.SignOptions['expiresIn'],
+    });
+    const { exp } = jwt.decode(token) as { exp: number };
+
+    await User.updateOne({ _id: user._id }, {
+      $push: {
+        refreshTokens: {
+          tokenHash: this.hashToken(token),
+          expiresAt: new Date(exp * 1000),
+          createdAt: new Date(),
+        },
+      },
+    });
+    // Drop expired tokens so the list does not grow forever
+    await User.updateOne({ _id: user._id }, {
+      $pull: { refreshTokens: { expiresAt: { $lt: new Date() } } },
+    });
+
+    return token;
+  }
+
+  // Validates a refresh token and rotates it; returns null when it is unknown or revoked
+  async rotateRefreshToken(token: string): Promise<{ user: IUser; accessToken: string; refreshToken: string } | null> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = jwt.verify(token, this.getSecret()) as RefreshTokenPayload;
+    } catch {
+      return null;
+    }
+    if (payload.type !== 'refresh') return null;
+
+    const user = await User.findOneAndUpdate(
+      { _id: payload.sub, isActive: true, 'refreshTokens.tokenHash': this.hashToken(token) },
+      { $pull: { refreshTokens: { tokenHash: this.hashToken(token) } } },
+      { new: true }
+    );
+    if (!user) return null;
+
+    return {
+      user,
+      accessToken: this.signAccessToken(user),
+      refreshToken: await this.issueRefreshToken(user),
+    };
+  }
+
+  // Scoped to the owner so one user cannot log another out with a token they obtained
+  async revokeRefreshToken(userId: string, token: string): Promise<void> {
+    await User.updateOne(
+      { _id: userId, 'refreshTokens.tokenHash': this.hashToken(token) },
+      { $pull: { refreshTokens: { tokenHash: this.hashToken(token) } } }
+    );
+  }
+
+  async revokeAllRefreshTokens(userId: string): Promise<void> {
+    await User.updateOne({ _id: userId }, { $set: { refreshTokens: [] } });
+  }
+
+  // Creates the first admin from ADMIN_EMAIL / ADMIN_PASSWORD when no staff users exist yet
+  async ensureBootstrapAdmin(): Promise<void> {
+    if (!process.env.ADMIN_EMAIL || !process.env.ADMIN_PASSWORD) return;
+    const email = toFormEmail(process.env.ADMIN_EMAIL);
+    const password = process.env.ADMIN_PASSWORD;
+
+    // An admin bootstrapped before the address was normalized could never log in; store it the way login looks it up
+    const storedEmail = process.env.ADMIN_EMAIL.trim().toLowerCase();
+    if (storedEmail !== email && !(await User.exists({ email }))) {
+      const repaired = await User.updateOne({ email: storedEmail, role: 'admin' }, { $set: { email } });
+      if (repaired.modifiedCount > 0) console.log(`👤 Bootstrap admin email normalized to ${email}`);
+    }
+
+    const userCount = await User.countDocuments();
+    if (userCount > 0) return;
+
+    await User.create({
+      name: process.env.ADMIN_NAME || 'Clinic Admin',
+      email,
+      password,
+      role: 'admin',
+    });
+    console.log(`👤 Bootstrap admin created: ${email}`);
+  }
+}
+
+export const authService = new AuthService();
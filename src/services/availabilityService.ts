@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { BookingLock } from '../models/BookingLock.js';
+import { IPractitioner } from '../models/Practitioner.js';
+import { scheduleService, DaySchedule } from './scheduleService.js';
+import { treatmentService, DEFAULT_TREATMENT_DURATION } from './treatmentService.js';
+import { practitionerService } from './practitionerService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { parseTimeSlot, getDayRange, toDateKey } from '../utils/timeSlots.js';
+
+// A day lock is only held from a slot check to the save; the expiry frees it if the process dies in between
+const BOOKING_LOCK_TTL_MS = 30 * 1000;
+const BOOKING_LOCK_WAIT_MS = 10 * 1000;
+const BOOKING_LOCK_RETRY_MS = 50;
+
+// Statuses that hold a slot
+export const ACTIVE_APPOINTMENT_STATUSES = ['pending', 'confirmed'];
+
+export interface PractitionerSummary {
+  id: string;
+  name: string;
+  title?: string;
+}
+
+export interface SlotAvailability {
+  time: string;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  available: boolean;
+  // Qualified practitioners free for the whole treatment; omitted until practitioners are set up
+  practitioners?: PractitionerSummary[];
+}
+
+export interface DayAvailability {
+  date: string;
+  isOpen: boolean;
+  closedReason?: string;
+  treatmentType?: string;
+  practitioner?: string;
+  duration: number;
+  slots: SlotAvailability[];
+}
+
+export interface SlotCheckOptions {
+  treatment?: Types.ObjectId | null;
+  // Only consider this practitioner
+  practitioner?: string;
+  // Bookings made in the same request that are not saved yet, such as earlier sessions of a new plan
+  unsaved?: IAppointment[];
+}
+
+export interface SlotCheckResult {
+  available: boolean;
+  reason?: string;
+  conflicts: IAppointment[];
+  // Qualified practitioners free for the booking, least busy that day first; omitted until practitioners are set up
+  practitioners?: IPractitioner[];
+}
+
+interface BookedInterval {
+  appointment: IAppointment;
+  start: number;
+  end: number;
+}
+
+class AvailabilityService {
+  getSlotCapacity(): number {
+    return Math.max(1, parseInt(process.env.SLOT_CAPACITY || '1'));
+  }
+
+  private async acquireDayLock(dateKey: string, token: string): Promise<boolean> {
+    const now = new Date();
+    try {
+      const lock = await BookingLock.findOneAndUpdate(
+        { dateKey, $or: [{ lockedUntil: { $lte: now } }, { lockedUntil: null }] },
+        { $set: { lockedBy: token, lockedUntil: new Date(now.getTime() + BOOKING_LOCK_TTL_MS) } },
+        { upsert: true, new: true }
+      );
+      return lock?.lockedBy === token;
+    } catch (error: any) {
+      // The upsert collides with the unique dateKey when the lock exists and is held
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a slot check and the save that relies on it while holding the lock for each day involved, so two requests
+   * cannot both take the last place in a slot or the same practitioner. Days are locked in order, so requests
+   * covering several days cannot wait on each other. Gives up with 409 if a day stays locked.
+   */
+  async withDayLocks<T>(dateKeys: string[], work: () => Promise<T>): Promise<T> {
+    const token = crypto.randomUUID();
+    const days = Array.from(new Set(dateKeys)).sort();
+    const held: string[] = [];
+
+    try {
+      for (const dateKey of days) {
+        const giveUpAt = Date.now() + BOOKING_LOCK_WAIT_MS;
+        while (!(await this.acquireDayLock(dateKey, token))) {
+          if (Date.now() >= giveUpAt) {
+            throw createError('Another booking for this day is being saved; please try again', 409);
+          }
+          await new Promise(resolve => setTimeout(resolve, BOOKING_LOCK_RETRY_MS));
+        }
+        held.push(dateKey);
+      }
+
+      return await work();
+    } finally {
+      if (held.length > 0) {
+        await BookingLock.updateMany({ dateKey: { $in: held }, lockedBy: token }, { $set: { lockedUntil: null } })
+          .catch(error => console.warn('⚠️ Failed to release booking locks:', error));
+      }
+    }
+  }
+
+  // Active appointments scheduled on a calendar day, using the confirmed date when set
+  private async getBookedIntervals(dateKey: string, excludeAppointmentId?: string | string[]): Promise<BookedInterval[]> {
+    const { start, end } = getDayRange(dateKey);
+    const filter: any = {
+      status: { $in: ACTIVE_APPOINTMENT_STATUSES },
+      $or: [
+        { confirmedDate: { $gte: start, $lt: end } },
+        { confirmedDate: null, preferredDate: { $gte: start, $lt: end } },
+      ],
+    };
+    if (Array.isArray(excludeAppointmentId)) filter._id = { $nin: excludeAppointmentId };
+    else if (excludeAppointmentId) filter._id = { $ne: excludeAppointmentId };
+
+    return this.toIntervals(await Appointment.find(filter));
+  }
+
+  private toIntervals(appointments: IAppointment[]): BookedInterval[] {
+    return appointments.flatMap((appointment) => {
+      const startMinutes = parseTimeSlot(appointment.confirmedTime || appointment.preferredTime);
+      if (startMinutes === null) return [];
+      return [{
+        appointment,
+        start: startMinutes,
+        end: startMinutes + (appointment.duration || DEFAULT_TREATMENT_DURATION),
+      }];
+    });
+  }
+
+  private overlapping(intervals: BookedInterval[], start: number, end: number): BookedInterval[] {
+    return intervals.filter((interval) => interval.start < end && start < interval.end);
+  }
+
+  // Practitioners a booking may be assigned to, or null when the clinic has not set any up
+  private async getPractitionerPool(treatment?: Types.ObjectId | null, practitionerId?: string): Promise<IPractitioner[] | null> {
+    if (!(await practitionerService.isConfigured())) return null;
+    const qualified = await practitionerService.getQualified(treatment);
+    return practitionerId ? qualified.filter(practitioner => String(practitioner._id) === practitionerId) : qualified;
+  }
+
+  private isAssignedTo(interval: BookedInterval, practitioner: IPractitioner): boolean {
+    return !!interval.appointment.practitioner && String(interval.appointment.practitioner) === String(practitioner._id);
+  }
+
+  // Practitioners from the pool who are on duty and have no other booking during [start, end)
+  private getFreePractitioners(
+    pool: IPractitioner[],
+    intervals: BookedInterval[],
+    dateKey: string,
+    start: number,
+    end: number
+  ): IPractitioner[] {
+    const overlapping = this.overlapping(intervals, start, end);
+    const load = (practitioner: IPractitioner) => intervals.filter(interval => this.isAssignedTo(interval, practitioner)).length;
+
+    return pool
+      .filter(practitioner =>
+        practitionerService.isWorking(practitioner, dateKey, start, end) &&
+        !overlapping.some(interval => this.isAssignedTo(interval, practitioner))
+      )
+      .sort((a, b) => load(a) - load(b));
+  }
+
+  private toSummary(practitioner: IPractitioner): PractitionerSummary {
+    return { id: String(practitioner._id), name: practitioner.name, title: practitioner.title };
+  }
+
+  // Slots a booking of the given length starting at `time` would occupy, or null if it runs past the open slots
+  private getCoveredSlots(day: DaySchedule, time: string, duration: number): string[] | null {
+    const start = parseTimeSlot(time);
+    if (start === null) return null;
+
+    const covered: string[] = [];
+    for (let offset = 0; offset < duration; offset += day.slotLength) {
+      const slot = day.slots.find((label) => parseTimeSlot(label) === start + offset);
+      if (!slot) return null;
+      covered.push(slot);
+    }
+    return covered;
+  }
+
+  async getDayAvailability(dateKey: string, treatmentType?: string, practitionerId?: string): Promise<DayAvailability> {
+    const capacity = this.getSlotCapacity();
+    const treatment = treatmentType ? await treatmentService.findByName(treatmentType) : null;
+    const duration = treatment?.defaultDuration || DEFAULT_TREATMENT_DURATION;
+    const day = await scheduleService.getSlotsForDate(dateKey);
+    const intervals = day.isOpen ? await this.getBookedIntervals(dateKey) : [];
+    const pool = day.isOpen ? await this.getPractitionerPool(treatment?._id as Types.ObjectId | undefined, practitionerId) : null;
+
+    const remainingBySlot = new Map<string, number>();
+    const bookedBySlot = new Map<string, number>();
+    for (const time of day.slots) {
+      const slotStart = parseTimeSlot(time)!;
+      const booked = this.overlapping(intervals, slotStart, slotStart + day.slotLength).length;
+      bookedBySlot.set(time, booked);
+      remainingBySlot.set(time, Math.max(0, capacity - booked));
+    }
+
+    const slots = day.slots.map((time) => {
+      const covered = this.getCoveredSlots(day, time, duration);
+      const slotStart = parseTimeSlot(time)!;
+      const free = pool ? this.getFreePractitioners(pool, intervals, dateKey, slotStart, slotStart + duration) : null;
+      return {
+        time,
+        capacity,
+        booked: bookedBySlot.get(time)!,
+        remaining: remainingBySlot.get(time)!,
+        available: !!covered && covered.every((slot) => remainingBySlot.get(slot)! > 0) && (!free || free.length > 0),
+        practitioners: free ? free.map((practitioner) => this.toSummary(practitioner)) : undefined,
+      };
+    });
+
+    return {
+      date: dateKey,
+      isOpen: day.isOpen,
+      closedReason: day.closedReason,
+      treatmentType,
+      practitioner: practitionerId,
+      duration,
+      slots,
+    };
+  }
+
+  // Checks whether a booking fits; pass the appointment's own id (or ids) when re-checking existing bookings
+  async checkSlot(
+    dateKey: string,
+    time: string,
+    duration: number,
+    excludeAppointmentId?: string | string[],
+    options: SlotCheckOptions = {}
+  ): Promise<SlotCheckResult> {
+    const day = await scheduleService.getSlotsForDate(dateKey);
+    if (!day.isOpen) {
+      return { available: false, reason: day.closedReason, conflicts: [] };
+    }
+
+    const covered = this.getCoveredSlots(day, time, duration);
+    if (!covered) {
+      return { available: false, reason: 'The treatment does not fit within clinic hours at this time', conflicts: [] };
+    }
+
+    const capacity = this.getSlotCapacity();
+    const unsaved = (options.unsaved || [])
+      .filter(appointment => toDateKey(appointment.confirmedDate || appointment.preferredDate) === dateKey);
+    const intervals = [...await this.getBookedIntervals(dateKey, excludeAppointmentId), ...this.toIntervals(unsaved)];
+    const conflicts = new Set<IAppointment>();
+    let available = true;
+
+    for (const slot of covered) {
+      const slotStart = parseTimeSlot(slot)!;
+      const overlapping = this.overlapping(intervals, slotStart, slotStart + day.slotLength);
+      if (overlapping.length >= capacity) {
+        available = false;
+        overlapping.forEach((interval) => conflicts.add(interval.appointment));
+      }
+    }
+
+    const pool = await this.getPractitionerPool(options.treatment, options.practitioner);
+    if (!pool) {
+      return {
+        available,
+        reason: available ? undefined : 'The selected time slot is fully booked',
+        conflicts: Array.from(conflicts),
+      };
+    }
+
+    const start = parseTimeSlot(time)!;
+    const practitioners = this.getFreePractitioners(pool, intervals, dateKey, start, start + duration);
+    if (available && practitioners.length === 0) {
+      this.overlapping(intervals, start, start + duration)
+        .filter((interval) => pool.some((practitioner) => this.isAssignedTo(interval, practitioner)))
+        .forEach((interval) => conflicts.add(interval.appointment));
+      return {
+        available: false,
+        reason: options.practitioner
+          ? 'The selected practitioner is not available at this time'
+          : 'No qualified practitioner is available at this time',
+        conflicts: Array.from(conflicts),
+        practitioners,
+      };
+    }
+
+    return {
+      available,
+      reason: available ? undefined : 'The selected time slot is fully booked',
+      conflicts: Array.from(conflicts),
+      practitioners,
+    };
+  }
+
+  // Practitioner to assign after a slot check: the current one if still free, otherwise the least busy
+  pickPractitioner(result: SlotCheckResult, currentPractitioner?: Types.ObjectId): IPractitioner | undefined {
+    if (!result.practitioners) return undefined;
+    return result.practitioners.find((practitioner) => String(practitioner._id) === String(currentPractitioner))
+      || result.practitioners[0];
+  }
+}
+
+export const availabilityService = new AvailabilityService();
@@ -0,0 +1,147 @@
+import { IAppointment } from '../models/Appointment.js';
+import { linkService } from './linkService.js';
+import { DEFAULT_TREATMENT_DURATION } from './treatmentService.js';
+import { getSlotStart } from '../utils/timeSlots.js';
+
+// iTIP method: REQUEST adds or updates an event, CANCEL removes it, PUBLISH is used for feeds
+export type CalendarMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export interface CalendarInvite {
+  method: CalendarMethod;
+  content: string;
+}
+
+const PRODUCT_ID = '-//Doctor Bhargava Clinic//Appointments//EN';
+
+class CalendarService {
+  // Escapes TEXT values as RFC 5545 section 3.3.11 requires
+  private escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  // Folds content lines longer than 75 octets, without splitting multi-byte characters
+  private foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+      const bytes = Buffer.byteLength(char);
+      const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+      if (currentBytes + bytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+  }
+
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  // Stable per appointment so later invites update or cancel the original event
+  getEventUid(appointment: IAppointment): string {
+    const host = new URL(linkService.getBaseUrl()).hostname || 'localhost';
+    return `appointment-${appointment._id}@${host}`;
+  }
+
+  private buildEvent(appointment: IAppointment, audience: 'patient' | 'staff', cancelled: boolean): string[] | null {
+    const start = appointment.startsAt || getSlotStart(
+      appointment.confirmedDate || appointment.preferredDate,
+      appointment.confirmedTime || appointment.preferredTime
+    );
+    if (!start) return null;
+    const end = appointment.endsAt || new Date(start.getTime() + (appointment.duration || DEFAULT_TREATMENT_DURATION) * 60 * 1000);
+
+    const clinicName = process.env.CLINIC_NAME || 'Doctor Bhargava Clinic';
+    const organizerEmail = process.env.CLINIC_EMAIL || process.env.EMAIL_USER;
+
+    const summary = audience === 'patient'
+      ? `${appointment.treatmentType} at ${clinicName}`
+      : `${appointment.name} - ${appointment.treatmentType}`;
+    const description = audience === 'patient'
+      ? [
+        `Reference: ${appointment.referenceId}`,
+        process.env.CLINIC_PHONE ? `Questions? Call us at ${process.env.CLINIC_PHONE}` : '',
+      ].filter(Boolean).join('\n')
+      : [
+        `Reference: ${appointment.referenceId}`,
+        `Patient: ${appointment.name}`,
+        `Phone: ${appointment.phone}`,
+        appointment.notes ? `Notes: ${appointment.notes}` : '',
+      ].filter(Boolean).join('\n');
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${this.getEventUid(appointment)}`,
+      `SEQUENCE:${appointment.calendarSequence || 0}`,
+      `DTSTAMP:${this.formatDateTime(new Date())}`,
+      `DTSTART:${this.formatDateTime(start)}`,
+      `DTEND:${this.formatDateTime(end)}`,
+      `SUMMARY:${this.escapeText(summary)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    ];
+    if (process.env.CLINIC_ADDRESS) {
+      lines.push(`LOCATION:${this.escapeText(process.env.CLINIC_ADDRESS)}`);
+    }
+    if (audience === 'patient' && organizerEmail) {
+      lines.push(`ORGANIZER;CN="${clinicName.replace(/"/g, '')}":mailto:${organizerEmail}`);
+      lines.push(`ATTENDEE;CN="${appointment.name.replace(/"/g, '')}";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:${appointment.email}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private wrapCalendar(method: CalendarMethod, events: string[][], calendarName?: string): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${method}`,
+    ];
+    if (calendarName) {
+      lines.push(`X-WR-CALNAME:${this.escapeText(calendarName)}`);
+    }
+    events.forEach(event => lines.push(...event));
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  // Invite for the patient's confirmation, reschedule or cancellation email
+  buildInvite(appointment: IAppointment): CalendarInvite | null {
+    const cancelled = appointment.status === 'cancelled';
+    const event = this.buildEvent(appointment, 'patient', cancelled);
+    if (!event) return null;
+
+    const method: CalendarMethod = cancelled ? 'CANCEL' : 'REQUEST';
+    return { method, content: this.wrapCalendar(method, [event]) };
+  }
+
+  // Several appointments in one file, e.g. every session of a treatment plan
+  buildPatientCalendar(appointments: IAppointment[], calendarName?: string): string {
+    const events = appointments
+      .map(appointment => this.buildEvent(appointment, 'patient', appointment.status === 'cancelled'))
+      .filter((event): event is string[] => event !== null);
+    return this.wrapCalendar('PUBLISH', events, calendarName);
+  }
+
+  // Subscription feed for staff calendars
+  buildStaffFeed(appointments: IAppointment[], calendarName: string): string {
+    const events = appointments
+      .map(appointment => this.buildEvent(appointment, 'staff', appointment.status === 'cancelled'))
+      .filter((event): event is string[] => event !== null);
+    return this.wrapCalendar('PUBLISH', events, calendarName);
+  }
+}
+
+export const calendarService = new CalendarService();
@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import { FilterQuery, Types } from 'mongoose';
+import { simpleParser, ParsedMail } from 'mailparser';
+import { Contact, IContact, IContactMessage } from '../models/Contact.js';
+import { User, IUser } from '../models/User.js';
+import { IReplyTemplate } from '../models/ReplyTemplate.js';
+import { emailService } from './emailService.js';
+import { patientService } from './patientService.js';
+import { triageService } from './triageService.js';
+import { replyTemplateService } from './replyTemplateService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { normalizeEmail, toFormEmail } from '../utils/contactDetails.js';
+import { getContactSlaHours, getContactSlaTargets, ContactPriority } from '../utils/contactSla.js';
+
+const REFERENCE_PATTERN = /\[(MSG-[0-9A-F]{8})\]/i;
+const MAX_BODY_LENGTH = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+const PRIORITIES: ContactPriority[] = ['high', 'medium', 'low'];
+
+// Messages still waiting for a reply; replied and archived ones can no longer breach
+const AWAITING_REPLY_STATUSES = ['new', 'read'];
+
+export interface InboundResult {
+  contact?: IContact;
+  created: boolean;
+  matchedBy?: 'message-id' | 'reference';
+  ignored?: 'auto-reply' | 'own-address' | 'duplicate';
+}
+
+export interface SlaAlertSummary {
+  overdue: number; // breached and not yet alerted
+  alerted: number;
+  emails: number;
+  failed: number;
+}
+
+export interface ResponseTimeSummary {
+  replied: number;
+  medianHours: number | null;
+  p90Hours: number | null;
+}
+
+export interface ResponseTimeStats extends ResponseTimeSummary {
+  slaHours: Record<ContactPriority, number>;
+  byPriority: Record<ContactPriority, ResponseTimeSummary>;
+}
+
+// Message-IDs are compared with their angle brackets, e.g. "<abc@mail.example.com>"
+const toMessageId = (value: string): string => {
+  const trimmed = value.trim();
+  return trimmed.startsWith('<') ? trimmed : `<${trimmed}>`;
+};
+
+const getThreadIds = (parsed: ParsedMail): string[] => {
+  const references = Array.isArray(parsed.references) ? parsed.references : parsed.references ? [parsed.references] : [];
+  return Array.from(new Set([...(parsed.inReplyTo ? [parsed.inReplyTo] : []), ...references].flatMap(value => value.split(/\s+/)).filter(Boolean).map(toMessageId)));
+};
+
+// Out-of-office and other automatic replies would otherwise reopen the message
+const isAutoReply = (parsed: ParsedMail): boolean => {
+  const autoSubmitted = String(parsed.headers.get('auto-submitted') || 'no').toLowerCase();
+  const precedence = String(parsed.headers.get('precedence') || '').toLowerCase();
+  return autoSubmitted !== 'no' ||
+    ['bulk', 'junk', 'list', 'auto_reply'].includes(precedence) ||
+    parsed.headers.has('x-autoreply') ||
+    parsed.headers.has('x-autorespond');
+};
+
+// Drops the quoted history below "On ... wrote:" and "> " lines, unless nothing would be left
+const stripQuotedReply = (text: string): string => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const cut = lines.findIndex((line, index) =>
+    /^On .+wrote:\s*$/.test(line.trim()) ||
+    /^-+\s*Original Message\s*-+$/i.test(line.trim()) ||
+    (line.startsWith('>') && lines.slice(index).every(rest => rest.startsWith('>') || !rest.trim()))
+  );
+  const kept = (cut === -1 ? lines : lines.slice(0, cut)).join('\n').trim();
+  return kept || text.trim();
+};
+
+// Linear interpolation between the closest ranks of an ascending list
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const toHours = (ms: number | null): number | null => ms === null ? null : Math.round(ms / HOUR_MS * 100) / 100;
+
+const summarise = (durations: number[]): ResponseTimeSummary => {
+  const sorted = [...durations].sort((a, b) => a - b);
+  return { replied: sorted.length, medianHours: toHours(percentile(sorted, 0.5)), p90Hours: toHours(percentile(sorted, 0.9)) };
+};
+
+// The contact form's minimum lengths, for mail that starts a new contact
+const withMinimumLength = (text: string, min: number, fallback: string): string =>
+  text.length >= min ? text : `Email: ${text || fallback}`;
+
+class ContactService {
+  // Message-IDs of every email in the conversation, oldest first, for the References header
+  getReferences(contact: IContact): string[] {
+    return [contact.messageId, ...contact.thread.map(message => message.messageId)]
+      .filter((messageId): messageId is string => !!messageId);
+  }
+
+  // "Re: <subject> [MSG-1A2B3C4D]"; the reference lets a reply find its thread if the headers are lost
+  getReplySubject(contact: IContact): string {
+    const subject = /^re:/i.test(contact.subject) ? contact.subject : `Re: ${contact.subject}`;
+    return REFERENCE_PATTERN.test(subject) ? subject : `${subject} [${contact.referenceId}]`;
+  }
+
+  isInboundConfigured(): boolean {
+    return !!process.env.INBOUND_EMAIL_SECRET;
+  }
+
+  // Constant-time check of the shared secret the mail relay sends
+  verifyInboundSecret(secret: string | undefined): boolean {
+    const expected = process.env.INBOUND_EMAIL_SECRET;
+    if (!expected || !secret) return false;
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(secret), digest(expected));
+  }
+
+  // The contact an inbound email answers, by its In-Reply-To/References headers or the reference in its subject
+  private async findThread(parsed: ParsedMail, from: string): Promise<Pick<InboundResult, 'contact' | 'matchedBy'>> {
+    const threadIds = getThreadIds(parsed);
+    if (threadIds.length > 0) {
+      const contact = await Contact.findOne({
+        anonymisedAt: null,
+        $or: [{ messageId: { $in: threadIds } }, { 'thread.messageId': { $in: threadIds } }],
+      }).sort({ updatedAt: -1 });
+      if (contact) return { contact, matchedBy: 'message-id' };
+    }
+
+    // A reference alone is easy to copy, so it only counts when the sender is the person who wrote in. The form
+    // stores addresses as its sanitizer leaves them, so a dotted Gmail sender is matched by that form too.
+    const reference = parsed.subject?.match(REFERENCE_PATTERN)?.[1].toUpperCase();
+    if (reference) {
+      const contact = await Contact.findOne({
+        referenceKey: reference,
+        email: { $in: Array.from(new Set([from, toFormEmail(from)])) },
+        anonymisedAt: null,
+      });
+      if (contact) return { contact, matchedBy: 'reference' };
+    }
+
+    return {};
+  }
+
+  /**
+   * Adds a raw RFC 822 email to the contact thread it answers and reopens the contact as new. Mail that matches no
+   * thread becomes a new contact. Automatic replies, mail from the clinic's own address and messages already
+   * received are ignored, so a relay can safely retry.
+   */
+  async ingest(raw: Buffer): Promise<InboundResult> {
+    const parsed = await simpleParser(raw);
+    const sender = parsed.from?.value[0];
+    if (!sender?.address) {
+      throw createError('The email has no sender address', 422);
+    }
+
+    const from = normalizeEmail(sender.address);
+    if (process.env.EMAIL_USER && from === normalizeEmail(process.env.EMAIL_USER)) {
+      return { created: false, ignored: 'own-address' };
+    }
+    if (isAutoReply(parsed)) {
+      return { created: false, ignored: 'auto-reply' };
+    }
+
+    const messageId = parsed.messageId ? toMessageId(parsed.messageId) : undefined;
+    if (messageId) {
+      const existing = await Contact.findOne({ $or: [{ messageId, source: 'email' }, { 'thread.messageId': messageId }] });
+      if (existing) return { contact: existing, created: false, ignored: 'duplicate' };
+    }
+
+    const subject = (parsed.subject || '').trim();
+    const text = (parsed.text || '').trim();
+    const attachments = parsed.attachments.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.size,
+    }));
+
+    const { contact, matchedBy } = await this.findThread(parsed, from);
+    if (contact) {
+      contact.thread.push({
+        direction: 'inbound',
+        from,
+        subject: subject.slice(0, 300) || '(no subject)',
+        body: stripQuotedReply(text).slice(0, MAX_BODY_LENGTH) || '(no text)',
+        attachments,
+        messageId,
+        inReplyTo: parsed.inReplyTo ? toMessageId(parsed.inReplyTo) : undefined,
+        references: getThreadIds(parsed),
+        sentAt: parsed.date || new Date(),
+      });
+      contact.status = 'new';
+      contact.archivedAt = undefined;
+      await contact.save();
+
+      console.log(`📨 Reply from ${from} added to contact ${contact._id} (matched by ${matchedBy})`);
+      return { contact, created: false, matchedBy };
+    }
+
+    const name = (sender.name || from).trim().slice(0, 100);
+    const created = new Contact({
+      name,
+      email: from,
+      patient: await patientService.resolveId({ name, email: from }),
+      subject: withMinimumLength(subject, 5, '(no subject)').slice(0, 200),
+      message: withMinimumLength(text, 10, '(no text)').slice(0, 2000),
+      source: 'email',
+      attachments,
+      // Staff replies thread under the patient's own email
+      messageId,
+      status: 'new',
+      priority: 'medium',
+    });
+    const triage = await triageService.apply('contact', created);
+    await created.save();
+    await triageService.notify(triage, created);
+
+    console.log(`📨 Email from ${from} saved as a new contact - Subject: ${created.subject}`);
+    return { contact: created, created: true };
+  }
+
+  // Emails the reply to the sender, adds it to the thread and marks the message as replied
+  async reply(contact: IContact, message: string, user: IUser, template?: IReplyTemplate): Promise<IContactMessage> {
+    if (contact.anonymisedAt) {
+      throw createError('This message has been anonymised and cannot be replied to', 409);
+    }
+    if (!emailService.isEnabled()) {
+      throw createError('Email is not configured, so replies cannot be sent', 503);
+    }
+
+    const references = this.getReferences(contact);
+    const inReplyTo = references[references.length - 1];
+    const subject = this.getReplySubject(contact);
+
+    let messageId: string | undefined;
+    try {
+      messageId = await emailService.sendContactReply({
+        name: contact.name,
+        email: contact.email,
+        subject,
+        message,
+        staffName: user.name,
+        originalMessage: contact.message,
+        originalDate: contact.createdAt,
+        inReplyTo,
+        references,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to send reply to contact ${contact._id}:`, error);
+      throw createError('The reply could not be sent; please try again', 502);
+    }
+
+    const now = new Date();
+    contact.thread.push({
+      direction: 'outbound',
+      subject,
+      body: message,
+      messageId,
+      inReplyTo,
+      references,
+      sentBy: user._id,
+      sentByName: user.name,
+      template: template?._id as Types.ObjectId | undefined,
+      templateName: template?.name,
+      sentAt: now,
+    });
+    contact.status = 'replied';
+    contact.repliedAt = now;
+    await contact.save();
+    if (template) await replyTemplateService.recordUse(template);
+
+    console.log(`📧 Reply sent to ${contact.email} by ${user.name} - Subject: ${subject}`);
+    return contact.thread[contact.thread.length - 1];
+  }
+
+  getOverdueFilter(now: Date = new Date()): FilterQuery<IContact> {
+    return { status: { $in: AWAITING_REPLY_STATUSES }, anonymisedAt: null, dueAt: { $lt: now } };
+  }
+
+  // Gives messages saved before SLAs existed a dueAt from their createdAt; safe to run on every start
+  async backfillDueDates(): Promise<number> {
+    let updated = 0;
+    for (const priority of PRIORITIES) {
+      const result = await Contact.updateMany(
+        { dueAt: { $exists: false }, priority },
+        [{ $set: { dueAt: { $add: ['$createdAt', getContactSlaHours(priority) * HOUR_MS] } } }]
+      );
+      updated += result.modifiedCount;
+    }
+    if (updated > 0) {
+      console.log(`⏱️ Set reply due dates on ${updated} existing contact message(s)`);
+    }
+    return updated;
+  }
+
+  // Stores the subject reference on messages saved before it was indexed; safe to run on every start
+  async backfillReferenceKeys(): Promise<number> {
+    const result = await Contact.updateMany(
+      { referenceKey: { $exists: false } },
+      [{ $set: { referenceKey: { $concat: ['MSG-', { $toUpper: { $substrCP: [{ $toString: '$_id' }, 16, 8] } }] } } }]
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`🔖 Stored reply references on ${result.modifiedCount} existing contact message(s)`);
+    }
+    return result.modifiedCount;
+  }
+
+  // Assignees are free text, so they are matched to an active staff user by email or name; anything else goes to the admins
+  private async getAlertRecipients(contacts: IContact[]): Promise<Map<string, IContact[]>> {
+    const users = await User.find({ isActive: true }).select('name email role').lean();
+    const byKey = new Map<string, string>();
+    for (const user of users) {
+      byKey.set(user.email.toLowerCase(), user.email);
+      byKey.set(user.name.trim().toLowerCase(), user.email);
+    }
+    const admins = users.filter(user => user.role === 'admin').map(user => user.email);
+    const fallback = admins.length > 0 ? admins.join(', ') : process.env.CLINIC_EMAIL || process.env.EMAIL_USER || '';
+
+    const groups = new Map<string, IContact[]>();
+    for (const contact of contacts) {
+      const recipient = (contact.assignedTo && byKey.get(contact.assignedTo.trim().toLowerCase())) || fallback;
+      if (!recipient) continue;
+      groups.set(recipient, [...(groups.get(recipient) || []), contact]);
+    }
+    return groups;
+  }
+
+  /**
+   * Emails each assignee, or the admins for unassigned messages, one list of the messages that have passed their
+   * dueAt. Each message is alerted once per breach: slaAlertedAt is claimed atomically and released if the email
+   * fails, and a new dueAt clears it.
+   */
+  async sendOverdueAlerts(now: Date = new Date()): Promise<SlaAlertSummary> {
+    const summary: SlaAlertSummary = { overdue: 0, alerted: 0, emails: 0, failed: 0 };
+
+    if (!emailService.isEnabled()) {
+      console.warn('⚠️ Email service is disabled. Skipping overdue contact alerts.');
+      return summary;
+    }
+
+    const overdue = await Contact.find({ ...this.getOverdueFilter(now), slaAlertedAt: null }).sort({ dueAt: 1 });
+    summary.overdue = overdue.length;
+    if (overdue.length === 0) return summary;
+
+    for (const [to, contacts] of await this.getAlertRecipients(overdue)) {
+      const claimed: IContact[] = [];
+      for (const contact of contacts) {
+        const result = await Contact.updateOne(
+          { _id: contact._id, ...this.getOverdueFilter(now), dueAt: contact.dueAt, slaAlertedAt: null },
+          { $set: { slaAlertedAt: new Date() } }
+        );
+        if (result.modifiedCount > 0) claimed.push(contact);
+      }
+      if (claimed.length === 0) continue;
+
+      try {
+        await emailService.sendContactSlaAlert({
+          to,
+          contacts: claimed.map(contact => ({
+            referenceId: contact.referenceId!,
+            name: contact.name,
+            email: contact.email,
+            subject: contact.subject,
+            priority: contact.priority,
+            status: contact.status,
+            assignedTo: contact.assignedTo,
+            dueAt: contact.dueAt!,
+            hoursOverdue: Math.round((now.getTime() - contact.dueAt!.getTime()) / HOUR_MS * 10) / 10,
+          })),
+        });
+        summary.alerted += claimed.length;
+        summary.emails++;
+      } catch (error) {
+        // Release the claims so the next run retries
+        await Contact.updateMany({ _id: { $in: claimed.map(contact => contact._id) } }, { $unset: { slaAlertedAt: 1 } });
+        summary.failed += claimed.length;
+        console.warn(`⚠️ Failed to send overdue contact alert to ${to}:`, error);
+      }
+    }
+
+    if (summary.alerted > 0) {
+      console.log(`⏰ Alerted staff to ${summary.alerted} overdue contact message(s) in ${summary.emails} email(s)`);
+    }
+    return summary;
+  }
+
+  /**
+   * Time from a message arriving to its first reply, overall and per priority. Every reply moves repliedAt, so the
+   * earliest outbound email in the thread is used when there is one; messages marked replied by hand use repliedAt.
+   */
+  async getResponseTimeStats(): Promise<ResponseTimeStats> {
+    const firstOutbound = {
+      $min: {
+        $map: {
+          input: { $filter: { input: { $ifNull: ['$thread', []] }, cond: { $eq: ['$$this.direction', 'outbound'] } } },
+          in: '$$this.sentAt',
+        },
+      },
+    };
+    const replied = await Contact.aggregate<{ _id: ContactPriority; durations: number[] }>([
+      { $match: { repliedAt: { $ne: null } } },
+      { $project: { priority: 1, duration: { $subtract: [{ $ifNull: [firstOutbound, '$repliedAt'] }, '$createdAt'] } } },
+      { $match: { duration: { $gte: 0 } } },
+      { $group: { _id: '$priority', durations: { $push: '$duration' } } },
+    ]);
+
+    const byPriority = Object.fromEntries(PRIORITIES.map(priority => [
+      priority,
+      summarise(replied.find(group => group._id === priority)?.durations || []),
+    ])) as Record<ContactPriority, ResponseTimeSummary>;
+
+    return {
+      ...summarise(replied.flatMap(group => group.durations)),
+      slaHours: getContactSlaTargets(),
+      byPriority,
+    };
+  }
+}
+
+export const contactService = new ContactService();
@@ -1,5 +1,9 @@
 import nodemailer from 'nodemailer';
-import { Transporter } from 'nodemailer';
+import { Transporter, SendMailOptions } from 'nodemailer';
+import { EmailLog } from '../models/EmailLog.js';
+import { ITreatment } from '../models/Treatment.js';
+import { CalendarInvite } from './calendarService.js';
+import { formatCalendarDate, formatClinicDateTime } from '../utils/timeSlots.js';
 
 class EmailService {
   private transporter: Transporter | null = null;
@@ -36,6 +40,21 @@ class EmailService {
     return this.enabled && !!this.transporter;
   }
 
+  // Sends the message and records it in the email log, which feeds the patient timeline; returns its Message-ID
+  private async deliver(kind: string, mailOptions: SendMailOptions): Promise<string | undefined> {
+    const entry = { kind, to: String(mailOptions.to), subject: String(mailOptions.subject) };
+    try {
+      const info = await this.transporter!.sendMail(mailOptions);
+      await EmailLog.create({ ...entry, status: 'sent', messageId: info.messageId })
+        .catch(error => console.warn('⚠️ Failed to record sent email:', error));
+      return info.messageId;
+    } catch (error) {
+      await EmailLog.create({ ...entry, status: 'failed', error: error instanceof Error ? error.message : String(error) })
+        .catch(logError => console.warn('⚠️ Failed to record failed email:', logError));
+      throw error;
+    }
+  }
+
   private async verifyConnection(): Promise<void> {
     try {
       if (!this.enabled || !this.transporter) return;
@@ -46,6 +65,73 @@ class EmailService {
     }
   }
 
+  private formatPriceRange(priceRange: NonNullable<ITreatment['priceRange']>): string {
+    const format = (amount: number) => new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: priceRange.currency || 'INR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+    return priceRange.min === priceRange.max
+      ? format(priceRange.min)
+      : `${format(priceRange.min)} - ${format(priceRange.max)}`;
+  }
+
+  // Duration and price rows for the appointment details table
+  private renderTreatmentRows(treatment?: ITreatment | null): string {
+    if (!treatment) return '';
+    return `
+                  <tr>
+                    <td style="padding: 8px 0; font-weight: bold; color: #374151;">Duration:</td>
+                    <td style="padding: 8px 0; color: #6b7280;">About ${treatment.defaultDuration} minutes</td>
+                  </tr>
+                  ${treatment.priceRange ? `
+                  <tr>
+                    <td style="padding: 8px 0; font-weight: bold; color: #374151;">Estimated Cost:</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.formatPriceRange(treatment.priceRange)}</td>
+                  </tr>
+                  ` : ''}`;
+  }
+
+  private renderPreparationInstructions(treatment?: ITreatment | null): string {
+    if (!treatment?.preparationInstructions) return '';
+    return `
+            <div style="background: #ede9fe; padding: 20px; border-radius: 8px; margin-bottom: 20px; border-left: 4px solid #7c3aed;">
+              <h4 style="color: #5b21b6; margin-top: 0;">Preparing for Your ${this.escapeHtml(treatment.name)}</h4>
+              <p style="margin: 0; color: #374151; line-height: 1.6;">${treatment.preparationInstructions.replace(/\n/g, '<br>')}</p>
+            </div>
+            `;
+  }
+
+  private renderManageLink(manageUrl?: string): string {
+    if (!manageUrl) return '';
+    return `
+            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px; text-align: center; border: 1px solid #e2e8f0;">
+              <p style="margin: 0 0 15px 0; color: #374151;">Need to check, cancel or move your appointment?</p>
+              <a href="${manageUrl}" style="display: inline-block; background: #059669; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Manage My Appointment</a>
+            </div>
+            `;
+  }
+
+  // Sent as a text/calendar part so mail clients show it as an invite, plus an .ics attachment
+  private toIcalEvent(invite?: CalendarInvite | null) {
+    if (!invite) return undefined;
+    return { filename: 'appointment.ics', method: invite.method, content: invite.content };
+  }
+
+  // For text patients or staff type in, which is sent as written rather than as markup
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // Appointment dates are calendar days, so they must not shift with the server's timezone
+  private formatDate(date: string): string {
+    return formatCalendarDate(date);
+  }
+
   async sendContactEmail(data: {
     name: string;
     email: string;
@@ -70,15 +156,15 @@ class EmailService {
               <table style="width: 100%; border-collapse: collapse;">
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 120px;">Name:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.name}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.name)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Email:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.email}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.email)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Subject:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.subject}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.subject)}</td>
                 </tr>
               </table>
             </div>
@@ -86,14 +172,14 @@ class EmailService {
             <div style="background: white; padding: 25px; border-radius: 8px;">
               <h3 style="color: #1e40af; margin-top: 0;">Message</h3>
               <div style="background: #f9fafb; padding: 20px; border-radius: 6px; border-left: 4px solid #3b82f6;">
-                <p style="margin: 0; line-height: 1.6; color: #374151;">${data.message.replace(/\n/g, '<br>')}</p>
+                <p style="margin: 0; line-height: 1.6; color: #374151;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</p>
               </div>
             </div>
           </div>
           
           <div style="text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px;">
             <p>This email was sent from the Doctor Bhargava Clinic contact form.</p>
-            <p>Reply directly to this email to respond to ${data.name}.</p>
+            <p>Reply directly to this email to respond to ${this.escapeHtml(data.name)}.</p>
           </div>
         </div>
       `,
@@ -104,7 +190,7 @@ class EmailService {
         return;
       }
 
-      await this.transporter.sendMail(mailOptions);
+      await this.deliver('contact-alert', mailOptions);
   }
 
   async sendAppointmentEmail(data: {
@@ -115,6 +201,7 @@ class EmailService {
     preferredDate: string;
     preferredTime: string;
     message?: string;
+    treatment?: ITreatment | null;
   }): Promise<void> {
     const mailOptions = {
       from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
@@ -134,33 +221,34 @@ class EmailService {
               <table style="width: 100%; border-collapse: collapse;">
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Name:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.name}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.name)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Email:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.email}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.email)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Phone:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.phone}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.phone)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Treatment:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.treatmentType}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Preferred Date:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${new Date(data.preferredDate).toLocaleDateString('en-US', { 
-                    weekday: 'long', 
-                    year: 'numeric', 
-                    month: 'long', 
-                    day: 'numeric' 
-                  })}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.preferredDate)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Preferred Time:</td>
                   <td style="padding: 8px 0; color: #6b7280;">${data.preferredTime}</td>
                 </tr>
+                ${data.treatment ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Duration:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.treatment.defaultDuration} minutes</td>
+                </tr>
+                ` : ''}
               </table>
             </div>
             
@@ -168,7 +256,7 @@ class EmailService {
             <div style="background: white; padding: 25px; border-radius: 8px;">
               <h3 style="color: #059669; margin-top: 0;">Additional Message</h3>
               <div style="background: #f0fdf4; padding: 20px; border-radius: 6px; border-left: 4px solid #10b981;">
-                <p style="margin: 0; line-height: 1.6; color: #374151;">${data.message.replace(/\n/g, '<br>')}</p>
+                <p style="margin: 0; line-height: 1.6; color: #374151;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</p>
               </div>
             </div>
             ` : ''}
@@ -183,7 +271,7 @@ class EmailService {
           
           <div style="text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px;">
             <p>This appointment request was submitted through the Bhargava Clinic booking system.</p>
-            <p>Reply directly to this email to respond to ${data.name}.</p>
+            <p>Reply directly to this email to respond to ${this.escapeHtml(data.name)}.</p>
           </div>
         </div>
       `,
@@ -194,15 +282,16 @@ class EmailService {
         return;
       }
 
-      await this.transporter.sendMail(mailOptions);
+      await this.deliver('appointment-alert', mailOptions);
   }
 
+  // Returns the Message-ID, so replies from staff can be threaded under this email
   async sendContactConfirmation(data: {
     name: string;
     email: string;
     subject: string;
     message: string;
-  }): Promise<void> {
+  }): Promise<string | undefined> {
     const mailOptions = {
       from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
       to: data.email,
@@ -216,7 +305,7 @@ class EmailService {
           
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
             <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
-              <h2 style="color: #1e40af; margin-top: 0;">Hello ${data.name}!</h2>
+              <h2 style="color: #1e40af; margin-top: 0;">Hello ${this.escapeHtml(data.name)}!</h2>
               <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
                 Thank you for reaching out to us. We have received your message and will get back to you within 24 hours.
               </p>
@@ -226,11 +315,11 @@ class EmailService {
                 <table style="width: 100%; border-collapse: collapse;">
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 100px;">Subject:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${data.subject}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.subject)}</td>
                   </tr>
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151; vertical-align: top;">Message:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${data.message.replace(/\n/g, '<br>')}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</td>
                   </tr>
                 </table>
               </div>
@@ -267,7 +356,104 @@ class EmailService {
       return;
     }
 
-    await this.transporter.sendMail(mailOptions);
+    return this.deliver('contact-confirmation', mailOptions);
+  }
+
+  // A staff reply to a contact message, threaded under the earlier emails; returns its Message-ID
+  async sendContactReply(data: {
+    name: string;
+    email: string;
+    subject: string;
+    message: string;
+    staffName?: string;
+    originalMessage: string;
+    originalDate: Date;
+    inReplyTo?: string;
+    references: string[];
+  }): Promise<string | undefined> {
+    const mailOptions: SendMailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      replyTo: process.env.CLINIC_EMAIL || process.env.EMAIL_USER,
+      subject: data.subject,
+      inReplyTo: data.inReplyTo,
+      references: data.references,
+      text: `${data.message}\n\n${data.staffName ? `${data.staffName}\n` : ''}${process.env.CLINIC_NAME}\n\n` +
+        `On ${formatClinicDateTime(data.originalDate)}, ${data.name} wrote:\n${data.originalMessage.replace(/^/gm, '> ')}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="color: #374151; line-height: 1.6;">
+            <p style="margin-top: 0;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</p>
+            <p>
+              ${data.staffName ? `${this.escapeHtml(data.staffName)}<br>` : ''}
+              Doctor Bhargava Clinic<br>
+              <span style="color: #6b7280;">${process.env.CLINIC_PHONE}</span>
+            </p>
+          </div>
+
+          <div style="margin-top: 30px; padding-left: 15px; border-left: 3px solid #e2e8f0; color: #6b7280;">
+            <p style="margin: 0 0 10px 0; font-size: 14px;">On ${formatClinicDateTime(data.originalDate)}, ${this.escapeHtml(data.name)} wrote:</p>
+            <p style="margin: 0; line-height: 1.6;">${this.escapeHtml(data.originalMessage).replace(/\n/g, '<br>')}</p>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendContactReply.');
+      return;
+    }
+
+    return this.deliver('contact-reply', mailOptions);
+  }
+
+  // A message from staff about an appointment, with the booking details below it; returns its Message-ID
+  async sendAppointmentMessage(data: {
+    name: string;
+    email: string;
+    subject: string;
+    message: string;
+    staffName?: string;
+    referenceId?: string;
+    treatmentType: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    manageUrl?: string;
+  }): Promise<string | undefined> {
+    const mailOptions: SendMailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      replyTo: process.env.CLINIC_EMAIL || process.env.EMAIL_USER,
+      subject: data.subject,
+      text: `${data.message}\n\n${data.staffName ? `${data.staffName}\n` : ''}${process.env.CLINIC_NAME}\n\n` +
+        `${data.treatmentType} on ${this.formatDate(data.appointmentDate)} at ${data.appointmentTime}` +
+        `${data.referenceId ? ` (${data.referenceId})` : ''}${data.manageUrl ? `\nManage your appointment: ${data.manageUrl}` : ''}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="color: #374151; line-height: 1.6;">
+            <p style="margin-top: 0;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</p>
+            <p>
+              ${data.staffName ? `${this.escapeHtml(data.staffName)}<br>` : ''}
+              Doctor Bhargava Clinic<br>
+              <span style="color: #6b7280;">${process.env.CLINIC_PHONE}</span>
+            </p>
+          </div>
+
+          <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 30px 0 20px 0; border: 1px solid #e2e8f0; color: #374151;">
+            <p style="margin: 0;"><strong>${this.escapeHtml(data.treatmentType)}</strong>${data.referenceId ? ` <span style="color: #6b7280;">(${data.referenceId})</span>` : ''}</p>
+            <p style="margin: 5px 0 0 0; color: #6b7280;">${this.formatDate(data.appointmentDate)} at ${data.appointmentTime}</p>
+          </div>
+          ${this.renderManageLink(data.manageUrl)}
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendAppointmentMessage.');
+      return;
+    }
+
+    return this.deliver('appointment-message', mailOptions);
   }
 
   async sendAppointmentConfirmation(data: {
@@ -276,15 +462,21 @@ class EmailService {
     treatmentType: string;
     appointmentDate: string;
     appointmentTime: string;
+    treatment?: ITreatment | null;
+    manageUrl?: string;
+    rescheduled?: boolean;
+    calendarInvite?: CalendarInvite | null;
   }): Promise<void> {
+    const heading = data.rescheduled ? 'Appointment Rescheduled' : 'Appointment Confirmed';
     const mailOptions = {
       from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
       to: data.email,
-      subject: `Appointment Confirmed - ${data.treatmentType}`,
+      subject: `${heading} - ${data.treatmentType}`,
+      icalEvent: this.toIcalEvent(data.calendarInvite),
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #059669, #10b981); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
-            <h1 style="margin: 0; font-size: 28px;">Appointment Confirmed</h1>
+            <h1 style="margin: 0; font-size: 28px;">${heading}</h1>
             <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
           </div>
           
@@ -294,32 +486,29 @@ class EmailService {
               <table style="width: 100%; border-collapse: collapse;">
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Patient:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.name}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.name)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Treatment:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${data.treatmentType}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Date:</td>
-                  <td style="padding: 8px 0; color: #6b7280;">${new Date(data.appointmentDate).toLocaleDateString('en-US', { 
-                    weekday: 'long', 
-                    year: 'numeric', 
-                    month: 'long', 
-                    day: 'numeric' 
-                  })}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)}</td>
                 </tr>
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Time:</td>
                   <td style="padding: 8px 0; color: #6b7280;">${data.appointmentTime}</td>
                 </tr>
+                ${this.renderTreatmentRows(data.treatment)}
                 <tr>
                   <td style="padding: 8px 0; font-weight: bold; color: #374151;">Location:</td>
                   <td style="padding: 8px 0; color: #6b7280;">${process.env.CLINIC_ADDRESS}</td>
                 </tr>
               </table>
             </div>
-            
+            ${this.renderPreparationInstructions(data.treatment)}
+            ${this.renderManageLink(data.manageUrl)}
             <div style="background: #f0fdf4; padding: 20px; border-radius: 8px; margin-bottom: 20px; border-left: 4px solid #10b981;">
               <h4 style="color: #059669; margin-top: 0;">Important Reminders</h4>
               <ul style="color: #374151; margin: 0; padding-left: 20px;">
@@ -352,7 +541,86 @@ class EmailService {
         return;
       }
 
-      await this.transporter.sendMail(mailOptions);
+      await this.deliver('appointment-confirmation', mailOptions);
+  }
+
+  async sendAppointmentReminder(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    treatment?: ITreatment | null;
+    manageUrl?: string;
+    reconfirmationRequired?: boolean;
+  }): Promise<void> {
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: data.reconfirmationRequired
+        ? `Please confirm you are coming to your ${data.treatmentType} appointment`
+        : `Reminder: Your ${data.treatmentType} appointment is coming up`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">Appointment Reminder</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #1e40af; margin-top: 0;">Hello ${this.escapeHtml(data.name)}!</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
+                This is a friendly reminder about your upcoming appointment with us.
+              </p>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Date:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Time:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.appointmentTime}</td>
+                </tr>
+                ${this.renderTreatmentRows(data.treatment)}
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Location:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${process.env.CLINIC_ADDRESS}</td>
+                </tr>
+              </table>
+            </div>
+            ${this.renderPreparationInstructions(data.treatment)}
+            ${data.reconfirmationRequired && data.manageUrl ? `
+            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px; text-align: center; border: 2px solid #1e40af;">
+              <p style="margin: 0 0 15px 0; color: #374151;">Please confirm that you will attend. If we do not hear from you, we may offer your slot to another patient.</p>
+              <a href="${data.manageUrl}" style="display: inline-block; background: #1e40af; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Confirm My Attendance</a>
+            </div>
+            ` : this.renderManageLink(data.manageUrl)}
+            <div style="background: #fef3c7; padding: 20px; border-radius: 8px; border-left: 4px solid #f59e0b;">
+              <h4 style="color: #92400e; margin-top: 0;">Can't make it?</h4>
+              <p style="margin: 0; color: #92400e;">
+                Please call us at ${process.env.CLINIC_PHONE} as soon as possible so we can offer your slot to another patient.
+              </p>
+            </div>
+          </div>
+          
+          <div style="text-align: center; margin-top: 20px; color: #6b7280; font-size: 14px;">
+            <p>Thank you for choosing Doctor Bhargava Clinic. We look forward to seeing you!</p>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendAppointmentReminder.');
+      return;
+    }
+
+    await this.deliver('appointment-reminder', mailOptions);
   }
 
   async sendAppointmentRequestConfirmation(data: {
@@ -363,6 +631,8 @@ class EmailService {
     preferredDate: string;
     preferredTime: string;
     message?: string;
+    treatment?: ITreatment | null;
+    manageUrl?: string;
   }): Promise<void> {
     const mailOptions = {
       from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
@@ -377,7 +647,7 @@ class EmailService {
           
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
             <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
-              <h2 style="color: #059669; margin-top: 0;">Hello ${data.name}!</h2>
+              <h2 style="color: #059669; margin-top: 0;">Hello ${this.escapeHtml(data.name)}!</h2>
               <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
                 Thank you for booking an appointment with us. We have received your request and will contact you within 24 hours to confirm your appointment.
               </p>
@@ -387,35 +657,32 @@ class EmailService {
                 <table style="width: 100%; border-collapse: collapse;">
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${data.treatmentType}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
                   </tr>
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151;">Preferred Date:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${new Date(data.preferredDate).toLocaleDateString('en-US', { 
-                      weekday: 'long', 
-                      year: 'numeric', 
-                      month: 'long', 
-                      day: 'numeric' 
-                    })}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.preferredDate)}</td>
                   </tr>
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151;">Preferred Time:</td>
                     <td style="padding: 8px 0; color: #6b7280;">${data.preferredTime}</td>
                   </tr>
+                  ${this.renderTreatmentRows(data.treatment)}
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151;">Phone:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${data.phone}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.phone)}</td>
                   </tr>
                   ${data.message ? `
                   <tr>
                     <td style="padding: 8px 0; font-weight: bold; color: #374151; vertical-align: top;">Message:</td>
-                    <td style="padding: 8px 0; color: #6b7280;">${data.message.replace(/\n/g, '<br>')}</td>
+                    <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</td>
                   </tr>
                   ` : ''}
                 </table>
               </div>
             </div>
-            
+            ${this.renderPreparationInstructions(data.treatment)}
+            ${this.renderManageLink(data.manageUrl)}
             <div style="background: #fef3c7; padding: 20px; border-radius: 8px; margin-bottom: 20px; border-left: 4px solid #f59e0b;">
               <h4 style="color: #92400e; margin-top: 0;">What happens next?</h4>
               <ul style="color: #92400e; margin: 0; padding-left: 20px;">
@@ -448,23 +715,501 @@ class EmailService {
       return;
     }
 
-    await this.transporter.sendMail(mailOptions);
+    await this.deliver('appointment-request-confirmation', mailOptions);
+  }
+
+  async sendAppointmentCancellation(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    reason?: string;
+    calendarInvite?: CalendarInvite | null;
+  }): Promise<void> {
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: `Appointment Cancelled - ${data.treatmentType}`,
+      icalEvent: this.toIcalEvent(data.calendarInvite),
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #b91c1c, #ef4444); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">Appointment Cancelled</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #b91c1c; margin-top: 0;">Hello ${this.escapeHtml(data.name)},</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
+                Your appointment has been cancelled. The details are below for your records.
+              </p>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Date:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Time:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.appointmentTime}</td>
+                </tr>
+                ${data.reason ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; vertical-align: top;">Reason:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.reason).replace(/\n/g, '<br>')}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+            
+            <div style="background: #dbeafe; padding: 20px; border-radius: 8px; border-left: 4px solid #3b82f6;">
+              <h4 style="color: #1e40af; margin-top: 0;">Want to book again?</h4>
+              <p style="margin: 0; color: #374151;">
+                You can book a new appointment on our website or call us at ${process.env.CLINIC_PHONE}.
+              </p>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendAppointmentCancellation.');
+      return;
+    }
+
+    await this.deliver('appointment-cancellation', mailOptions);
+  }
+
+  // Tells the front desk that a patient changed an appointment through their self-service link
+  async sendAppointmentChangeAlert(data: {
+    action: 'cancelled' | 'rescheduled';
+    referenceId: string;
+    name: string;
+    email: string;
+    phone: string;
+    treatmentType: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    previousDate?: string;
+    previousTime?: string;
+    reason?: string;
+  }): Promise<void> {
+    const title = data.action === 'cancelled' ? 'Appointment Cancelled by Patient' : 'Appointment Rescheduled by Patient';
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: process.env.CLINIC_EMAIL,
+      replyTo: data.email,
+      subject: `${title} - ${data.referenceId}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #b45309, #f59e0b); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">${title}</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${data.referenceId}</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px;">
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Patient:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.name)} (${this.escapeHtml(data.email)}, ${this.escapeHtml(data.phone)})</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                ${data.previousDate ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Previous Slot:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.previousDate)} at ${data.previousTime}</td>
+                </tr>
+                ` : ''}
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">${data.action === 'cancelled' ? 'Cancelled Slot:' : 'New Slot:'}</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)} at ${data.appointmentTime}</td>
+                </tr>
+                ${data.reason ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; vertical-align: top;">Reason:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.reason).replace(/\n/g, '<br>')}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendAppointmentChangeAlert.');
+      return;
+    }
+
+    await this.deliver('appointment-change-alert', mailOptions);
+  }
+
+  // Sent to the staff addresses on triage rules that matched a new message or booking
+  async sendTriageAlert(data: {
+    to: string[];
+    target: 'contact' | 'appointment';
+    rules: string[];
+    priority: string;
+    tags: string[];
+    referenceId?: string;
+    name: string;
+    email: string;
+    subject?: string;
+    treatmentType?: string;
+    appointmentDate?: string;
+    appointmentTime?: string;
+    message?: string;
+  }): Promise<void> {
+    const title = data.target === 'contact' ? 'New Message Flagged' : 'New Booking Flagged';
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.to.join(', '),
+      replyTo: data.email,
+      subject: `[${data.priority.toUpperCase()}] ${title}: ${data.rules.join(', ')}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #b91c1c, #ef4444); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">${title}</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${data.referenceId || 'Doctor Bhargava Clinic'}</p>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Matched Rules:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.rules.map(rule => this.escapeHtml(rule)).join(', ')}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Priority:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.priority}</td>
+                </tr>
+                ${data.tags.length > 0 ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Tags:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.tags.map(tag => this.escapeHtml(tag)).join(', ')}</td>
+                </tr>
+                ` : ''}
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">From:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.name)} (${this.escapeHtml(data.email)})</td>
+                </tr>
+                ${data.subject ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Subject:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.subject)}</td>
+                </tr>
+                ` : ''}
+                ${data.treatmentType ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                ` : ''}
+                ${data.appointmentDate ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Requested Slot:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)} at ${data.appointmentTime}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+            ${data.message ? `
+            <div style="background: white; padding: 25px; border-radius: 8px;">
+              <h3 style="color: #b91c1c; margin-top: 0;">Message</h3>
+              <div style="background: #f9fafb; padding: 20px; border-radius: 6px; border-left: 4px solid #ef4444;">
+                <p style="margin: 0; line-height: 1.6; color: #374151;">${this.escapeHtml(data.message).replace(/\n/g, '<br>')}</p>
+              </div>
+            </div>
+            ` : ''}
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendTriageAlert.');
+      return;
+    }
+
+    await this.deliver('triage-alert', mailOptions);
   }
 
-  async sendSubscriptionConfirmation(email: string): Promise<void> {
+  // One list per recipient of the contact messages that have gone past their reply target
+  async sendContactSlaAlert(data: {
+    to: string;
+    contacts: Array<{
+      referenceId: string;
+      name: string;
+      email: string;
+      subject: string;
+      priority: string;
+      status: string;
+      assignedTo?: string;
+      dueAt: Date;
+      hoursOverdue: number;
+    }>;
+  }): Promise<void> {
+    const count = data.contacts.length;
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.to,
+      subject: `${count} Contact Message${count === 1 ? '' : 's'} Overdue for a Reply`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #b45309, #f59e0b); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">Replies Overdue</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${count} message${count === 1 ? ' has' : 's have'} passed the response target</p>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            ${data.contacts.map(contact => `
+            <div style="background: white; padding: 20px; border-radius: 8px; margin-bottom: 15px; border-left: 4px solid ${contact.priority === 'high' ? '#ef4444' : '#f59e0b'};">
+              <p style="margin: 0 0 8px 0; font-weight: bold; color: #374151;">${this.escapeHtml(contact.subject)}</p>
+              <p style="margin: 0; color: #6b7280; line-height: 1.6;">
+                ${contact.referenceId} &middot; ${this.escapeHtml(contact.name)} (${this.escapeHtml(contact.email)})<br>
+                Priority: ${contact.priority} &middot; Status: ${contact.status}${contact.assignedTo ? ` &middot; Assigned to: ${this.escapeHtml(contact.assignedTo)}` : ''}<br>
+                Due ${formatClinicDateTime(contact.dueAt)} &middot; <strong style="color: #b45309;">${contact.hoursOverdue} hours overdue</strong>
+              </p>
+            </div>
+            `).join('')}
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendContactSlaAlert.');
+      return;
+    }
+
+    await this.deliver('contact-sla-alert', mailOptions);
+  }
+
+  // One email per plan change rather than one per session
+  async sendTreatmentPlanUpdate(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    kind: 'created' | 'rescheduled' | 'cancelled';
+    totalSessions: number;
+    sessions: Array<{ sessionNumber: number; date: string; time: string }>;
+    reason?: string;
+    treatment?: ITreatment | null;
+    calendar?: string;
+  }): Promise<void> {
+    const headings = {
+      created: { title: 'Your Treatment Plan', subject: 'Your treatment plan', intro: 'Your treatment plan has been booked. Here are your sessions:' },
+      rescheduled: { title: 'Treatment Plan Updated', subject: 'Your treatment plan has been rescheduled', intro: 'The following sessions of your treatment plan have new dates:' },
+      cancelled: { title: 'Treatment Plan Cancelled', subject: 'Your treatment plan has been cancelled', intro: 'The following sessions of your treatment plan have been cancelled:' },
+    }[data.kind];
+
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: `${headings.subject} - ${data.treatmentType}`,
+      attachments: data.calendar
+        ? [{ filename: 'treatment-plan.ics', content: data.calendar, contentType: 'text/calendar; charset=utf-8' }]
+        : undefined,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">${headings.title}</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">${this.escapeHtml(data.treatmentType)} &middot; ${data.totalSessions} sessions</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #1e40af; margin-top: 0;">Hello ${this.escapeHtml(data.name)},</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">${headings.intro}</p>
+              <table style="width: 100%; border-collapse: collapse;">
+                ${data.sessions.map(session => `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Session ${session.sessionNumber} of ${data.totalSessions}:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(session.date)} at ${session.time}</td>
+                </tr>
+                `).join('')}
+                ${data.reason ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; vertical-align: top;">Reason:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.reason).replace(/\n/g, '<br>')}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+            ${data.kind === 'cancelled' ? '' : this.renderPreparationInstructions(data.treatment)}
+            <div style="background: #dbeafe; padding: 20px; border-radius: 8px; border-left: 4px solid #3b82f6;">
+              <p style="margin: 0; color: #374151;">
+                Questions about your plan? Call us at ${process.env.CLINIC_PHONE}.
+              </p>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendTreatmentPlanUpdate.');
+      return;
+    }
+
+    await this.deliver('treatment-plan-update', mailOptions);
+  }
+
+  async sendWaitlistConfirmation(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    dateFrom: string;
+    dateTo: string;
+  }): Promise<void> {
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: `You're on the waitlist - ${data.treatmentType}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">You're on the Waitlist</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #1e40af; margin-top: 0;">Hello ${this.escapeHtml(data.name)}!</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
+                We don't have a free slot for you right now, but we'll email you as soon as one opens up in your chosen dates.
+              </p>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">From:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.dateFrom)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">To:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.dateTo)}</td>
+                </tr>
+              </table>
+            </div>
+            
+            <div style="background: #fef3c7; padding: 20px; border-radius: 8px; border-left: 4px solid #f59e0b;">
+              <p style="margin: 0; color: #92400e;">
+                Offers are sent to waitlisted patients in turn and have to be claimed quickly, so keep an eye on your inbox.
+              </p>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendWaitlistConfirmation.');
+      return;
+    }
+
+    await this.deliver('waitlist-confirmation', mailOptions);
+  }
+
+  async sendWaitlistOffer(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    appointmentDate: string;
+    appointmentTime: string;
+    expiresAt: Date;
+    claimUrl: string;
+    treatment?: ITreatment | null;
+  }): Promise<void> {
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: `A slot has opened up - ${data.treatmentType}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #059669, #10b981); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">A Slot Has Opened Up</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
+          </div>
+          
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #059669; margin-top: 0;">Good news, ${this.escapeHtml(data.name)}!</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
+                An appointment has become available within the dates you asked for. It is being held for you until
+                <strong>${formatClinicDateTime(data.expiresAt)}</strong>.
+              </p>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Date:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Time:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${data.appointmentTime}</td>
+                </tr>
+                ${this.renderTreatmentRows(data.treatment)}
+              </table>
+            </div>
+            
+            <div style="background: white; padding: 20px; border-radius: 8px; text-align: center; border: 1px solid #e2e8f0;">
+              <a href="${data.claimUrl}" style="display: inline-block; background: #059669; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Claim This Appointment</a>
+              <p style="margin: 15px 0 0 0; color: #6b7280; font-size: 14px;">
+                If you don't claim it in time, we'll offer it to the next patient on the waitlist.
+              </p>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendWaitlistOffer.');
+      return;
+    }
+
+    await this.deliver('waitlist-offer', mailOptions);
+  }
+
+  async sendSubscriptionConfirmation(email: string, confirmUrl: string): Promise<void> {
     const mailOptions = {
       from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
       to: email,
-      subject: 'Subscription Confirmed - Doctor Bhargava Clinic',
+      subject: 'Please Confirm Your Subscription - Doctor Bhargava Clinic',
       html: `
         <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
           <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
-            <h1 style="margin: 0; font-size: 28px;">You're Subscribed!</h1>
+            <h1 style="margin: 0; font-size: 28px;">Confirm Your Subscription</h1>
             <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
           </div>
           <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
-            <p style="color: #374151; line-height: 1.6; margin-bottom: 0;">
+            <p style="color: #374151; line-height: 1.6;">
               Thank you for subscribing to our updates. We'll occasionally send helpful skin care tips and clinic news.
+              Please confirm that you'd like to receive them:
+            </p>
+            <p style="text-align: center; margin: 25px 0;">
+              <a href="${confirmUrl}" style="display: inline-block; background: #1e40af; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Confirm Subscription</a>
+            </p>
+            <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin-bottom: 0;">
+              If you didn't sign up, you can ignore this email and you won't hear from us.
             </p>
           </div>
         </div>
@@ -476,7 +1221,69 @@ class EmailService {
       return;
     }
 
-    await this.transporter.sendMail(mailOptions);
+    await this.deliver('subscription-confirmation', mailOptions);
+  }
+
+  async sendFeedbackRequest(data: {
+    name: string;
+    email: string;
+    treatmentType: string;
+    appointmentDate: string;
+    practitionerName?: string;
+    feedbackUrl: string;
+  }): Promise<void> {
+    const mailOptions = {
+      from: `"${process.env.CLINIC_NAME}" <${process.env.EMAIL_USER}>`,
+      to: data.email,
+      subject: `How was your ${data.treatmentType} visit?`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #1e40af, #3b82f6); color: white; padding: 30px; border-radius: 10px 10px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 28px;">How Did We Do?</h1>
+            <p style="margin: 10px 0 0 0; opacity: 0.9;">Doctor Bhargava Clinic</p>
+          </div>
+
+          <div style="background: #f8fafc; padding: 30px; border-radius: 0 0 10px 10px; border: 1px solid #e2e8f0;">
+            <div style="background: white; padding: 25px; border-radius: 8px; margin-bottom: 20px;">
+              <h2 style="color: #1e40af; margin-top: 0;">Hello ${this.escapeHtml(data.name)},</h2>
+              <p style="color: #374151; line-height: 1.6; margin-bottom: 20px;">
+                Thank you for visiting us. We'd be grateful if you could take a minute to tell us how your appointment went.
+              </p>
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151; width: 140px;">Treatment:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.treatmentType)}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Date:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.formatDate(data.appointmentDate)}</td>
+                </tr>
+                ${data.practitionerName ? `
+                <tr>
+                  <td style="padding: 8px 0; font-weight: bold; color: #374151;">Seen by:</td>
+                  <td style="padding: 8px 0; color: #6b7280;">${this.escapeHtml(data.practitionerName)}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+
+            <div style="background: white; padding: 20px; border-radius: 8px; text-align: center; border: 1px solid #e2e8f0;">
+              <a href="${data.feedbackUrl}" style="display: inline-block; background: #1e40af; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Rate Your Visit</a>
+              <p style="margin: 15px 0 0 0; color: #6b7280; font-size: 14px;">
+                It only takes a minute, and your answers help us improve.
+              </p>
+            </div>
+          </div>
+        </div>
+      `,
+    };
+
+    if (!this.enabled || !this.transporter) {
+      console.warn('⚠️ Email service is disabled. Skipping sendFeedbackRequest.');
+      return;
+    }
+
+    await this.deliver('feedback-request', mailOptions);
   }
 }
 
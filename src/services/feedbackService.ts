@@ -0,0 +1,228 @@
+import { FilterQuery, Types } from 'mongoose';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { Feedback, IFeedback, FEEDBACK_ASPECTS, FeedbackAspect } from '../models/Feedback.js';
+import { emailService } from './emailService.js';
+import { linkService } from './linkService.js';
+import { createError } from '../middleware/errorHandler.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Appointments completed longer ago than this (after the delay) are not surveyed, so a backlog is never emailed
+const FEEDBACK_LOOKBACK_DAYS = 7;
+
+export interface FeedbackInput {
+  rating: number;
+  scores?: Partial<Record<FeedbackAspect, number>>;
+  comments?: string;
+}
+
+export interface FeedbackRunSummary {
+  due: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface FeedbackStatsFilter {
+  from?: Date;
+  to?: Date;
+  practitioner?: string;
+  treatmentType?: string;
+}
+
+export interface SatisfactionSummary {
+  responses: number;
+  averageRating: number | null;
+  averageScores: Record<FeedbackAspect, number | null>;
+}
+
+export interface FeedbackStats {
+  requested: number; // survey emails sent in the period
+  overall: SatisfactionSummary & { ratingCounts: Record<1 | 2 | 3 | 4 | 5, number> };
+  byTreatmentType: (SatisfactionSummary & { treatmentType: string })[];
+  byPractitioner: (SatisfactionSummary & { practitioner: { _id: Types.ObjectId; name: string; title?: string } | null })[];
+}
+
+const round = (value: number | null | undefined): number | null =>
+  value === null || value === undefined ? null : Math.round(value * 100) / 100;
+
+// $group accumulators shared by every breakdown; $avg ignores aspects that were not scored
+const summaryGroup = {
+  responses: { $sum: 1 },
+  averageRating: { $avg: '$rating' },
+  ...Object.fromEntries(FEEDBACK_ASPECTS.map(aspect => [aspect, { $avg: `$scores.${aspect}` }])),
+};
+
+const toSummary = (group: any): SatisfactionSummary => ({
+  responses: group?.responses || 0,
+  averageRating: round(group?.averageRating),
+  averageScores: Object.fromEntries(FEEDBACK_ASPECTS.map(aspect => [aspect, round(group?.[aspect])])) as Record<FeedbackAspect, number | null>,
+});
+
+class FeedbackService {
+  getDelayHours(): number {
+    return Math.max(0, parseFloat(process.env.FEEDBACK_REQUEST_DELAY_HOURS || '24'));
+  }
+
+  // Completed appointments past the delay that have not been surveyed; anonymised ones have no one to ask
+  async findDue(now: Date = new Date()): Promise<IAppointment[]> {
+    const completedBefore = new Date(now.getTime() - this.getDelayHours() * HOUR_MS);
+
+    return Appointment.find({
+      status: 'completed',
+      feedbackRequestedAt: null,
+      anonymisedAt: null,
+      completedAt: { $lte: completedBefore, $gt: new Date(completedBefore.getTime() - FEEDBACK_LOOKBACK_DAYS * DAY_MS) },
+    }).sort({ completedAt: 1 });
+  }
+
+  // Emails every due survey; each appointment is claimed atomically first so parallel runs never double-send
+  async sendDueRequests(now: Date = new Date()): Promise<FeedbackRunSummary> {
+    const summary: FeedbackRunSummary = { due: 0, sent: 0, failed: 0, skipped: 0 };
+
+    if (!emailService.isEnabled()) {
+      console.warn('⚠️ Email service is disabled. Skipping feedback requests.');
+      return summary;
+    }
+
+    const due = await this.findDue(now);
+    summary.due = due.length;
+
+    for (const appointment of due) {
+      const claimed = await Appointment.findOneAndUpdate(
+        { _id: appointment._id, status: 'completed', feedbackRequestedAt: null, anonymisedAt: null },
+        { $set: { feedbackRequestedAt: new Date() } },
+        { new: true }
+      ).populate<{ practitioner?: { name: string } }>('practitioner', 'name');
+      if (!claimed) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        await emailService.sendFeedbackRequest({
+          name: claimed.name,
+          email: claimed.email,
+          treatmentType: claimed.treatmentType,
+          appointmentDate: (claimed.actualDate || claimed.confirmedDate || claimed.preferredDate).toISOString(),
+          practitionerName: claimed.practitioner?.name,
+          feedbackUrl: linkService.getFeedbackUrl(String(claimed._id)),
+        });
+        summary.sent++;
+      } catch (error) {
+        // Release the claim so the next run retries
+        await Appointment.updateOne({ _id: claimed._id }, { $unset: { feedbackRequestedAt: 1 } });
+        summary.failed++;
+        console.warn(`⚠️ Failed to send feedback request for ${claimed.referenceId}:`, error);
+      }
+    }
+
+    if (summary.sent > 0) {
+      console.log(`⭐ Sent ${summary.sent} feedback request(s)`);
+    }
+
+    return summary;
+  }
+
+  // Records the patient's response; each appointment can be rated once
+  async submit(appointment: IAppointment, input: FeedbackInput): Promise<IFeedback> {
+    if (appointment.status !== 'completed' || appointment.anonymisedAt) {
+      throw createError('Feedback can only be given for a completed appointment', 409);
+    }
+    if (await Feedback.exists({ appointment: appointment._id })) {
+      throw createError('Feedback has already been submitted for this appointment', 409);
+    }
+
+    try {
+      return await Feedback.create({
+        appointment: appointment._id,
+        practitioner: appointment.practitioner,
+        treatment: appointment.treatment,
+        treatmentType: appointment.treatmentType,
+        rating: input.rating,
+        scores: input.scores || {},
+        comments: input.comments,
+      });
+    } catch (error: any) {
+      // Two submissions raced past the check above
+      if (error?.code === 11000) {
+        throw createError('Feedback has already been submitted for this appointment', 409);
+      }
+      throw error;
+    }
+  }
+
+  buildFilter(filter: FeedbackStatsFilter): FilterQuery<IFeedback> {
+    const query: FilterQuery<IFeedback> = {};
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from ? { $gte: filter.from } : {}),
+        ...(filter.to ? { $lte: filter.to } : {}),
+      };
+    }
+    if (filter.practitioner) query.practitioner = new Types.ObjectId(filter.practitioner);
+    if (filter.treatmentType) query.treatmentType = filter.treatmentType;
+    return query;
+  }
+
+  // Average ratings overall, per treatment type and per practitioner
+  async getStats(filter: FeedbackStatsFilter = {}): Promise<FeedbackStats> {
+    const match = this.buildFilter(filter);
+    const requestedFilter: FilterQuery<IAppointment> = {
+      feedbackRequestedAt: {
+        $ne: null,
+        ...(filter.from ? { $gte: filter.from } : {}),
+        ...(filter.to ? { $lte: filter.to } : {}),
+      },
+    };
+    if (filter.practitioner) requestedFilter.practitioner = new Types.ObjectId(filter.practitioner);
+    if (filter.treatmentType) requestedFilter.treatmentType = filter.treatmentType;
+
+    const [[facets], requested] = await Promise.all([
+      Feedback.aggregate([
+        { $match: match },
+        {
+          $facet: {
+            overall: [{ $group: { _id: null, ...summaryGroup } }],
+            ratingCounts: [{ $group: { _id: '$rating', count: { $sum: 1 } } }],
+            byTreatmentType: [
+              { $group: { _id: '$treatmentType', ...summaryGroup } },
+              { $sort: { responses: -1, _id: 1 } },
+            ],
+            byPractitioner: [
+              { $match: { practitioner: { $ne: null } } },
+              { $group: { _id: '$practitioner', ...summaryGroup } },
+              { $sort: { responses: -1 } },
+              { $lookup: { from: 'practitioners', localField: '_id', foreignField: '_id', as: 'practitioner', pipeline: [{ $project: { name: 1, title: 1 } }] } },
+            ],
+          },
+        },
+      ]),
+      Appointment.countDocuments(requestedFilter),
+    ]);
+
+    const ratingCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const { _id, count } of facets.ratingCounts) {
+      ratingCounts[_id as keyof typeof ratingCounts] = count;
+    }
+
+    return {
+      requested,
+      overall: { ...toSummary(facets.overall[0]), ratingCounts },
+      byTreatmentType: facets.byTreatmentType.map((group: any) => ({ treatmentType: group._id, ...toSummary(group) })),
+      byPractitioner: facets.byPractitioner.map((group: any) => ({ practitioner: group.practitioner[0] || null, ...toSummary(group) })),
+    };
+  }
+
+  // Strips the free-text comments when the appointment is anonymised; the ratings stay for the statistics
+  async anonymiseForAppointments(appointmentIds: Types.ObjectId[], now: Date = new Date()): Promise<number> {
+    const result = await Feedback.updateMany(
+      { appointment: { $in: appointmentIds }, anonymisedAt: null },
+      { $set: { anonymisedAt: now }, $unset: { comments: 1 } }
+    );
+    return result.modifiedCount;
+  }
+}
+
+export const feedbackService = new FeedbackService();
@@ -0,0 +1,102 @@
+import os from 'os';
+import crypto from 'crypto';
+import { JobLock } from '../models/JobLock.js';
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  // Longest time a run may hold the lock before another instance may take over
+  lockTtlMs?: number;
+  handler: () => Promise<object | void>;
+}
+
+export interface JobRunResult {
+  ran: boolean;
+  result?: object | void;
+}
+
+class JobScheduler {
+  private readonly instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+  private jobs = new Map<string, JobDefinition>();
+  private timers: NodeJS.Timeout[] = [];
+
+  register(job: JobDefinition): void {
+    this.jobs.set(job.name, job);
+  }
+
+  isEnabled(): boolean {
+    return process.env.ENABLE_SCHEDULED_JOBS !== 'false';
+  }
+
+  start(): void {
+    if (!this.isEnabled()) {
+      console.warn('⚠️ Scheduled jobs disabled: ENABLE_SCHEDULED_JOBS is false');
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      const tick = () => {
+        this.run(job.name).catch(error => console.error(`❌ Job ${job.name} failed:`, error));
+      };
+      const timer = setInterval(tick, job.intervalMs);
+      timer.unref();
+      this.timers.push(timer);
+      console.log(`⏱️ Job ${job.name} scheduled every ${Math.round(job.intervalMs / 60000)} min`);
+    }
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  // Takes the job's lock so only one instance runs it at a time; returns false if another holds it
+  private async acquireLock(job: JobDefinition): Promise<boolean> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + (job.lockTtlMs || 10 * 60 * 1000));
+
+    try {
+      const lock = await JobLock.findOneAndUpdate(
+        {
+          name: job.name,
+          $or: [{ lockedUntil: { $lte: now } }, { lockedUntil: null }],
+        },
+        { $set: { lockedBy: this.instanceId, lockedUntil } },
+        { upsert: true, new: true }
+      );
+      return lock?.lockedBy === this.instanceId;
+    } catch (error: any) {
+      // The upsert collides with the unique name when the lock exists and is held
+      if (error?.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  private async releaseLock(name: string, update: Record<string, unknown>): Promise<void> {
+    await JobLock.updateOne(
+      { name, lockedBy: this.instanceId },
+      { $set: { ...update, lockedUntil: new Date(), lastRunAt: new Date() } }
+    );
+  }
+
+  // Runs a registered job now, unless another instance is already running it
+  async run(name: string): Promise<JobRunResult> {
+    const job = this.jobs.get(name);
+    if (!job) throw new Error(`Unknown job: ${name}`);
+
+    if (!(await this.acquireLock(job))) {
+      return { ran: false };
+    }
+
+    try {
+      const result = await job.handler();
+      await this.releaseLock(name, { lastResult: result || {}, lastError: null });
+      return { ran: true, result };
+    } catch (error) {
+      await this.releaseLock(name, { lastError: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
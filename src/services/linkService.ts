@@ -0,0 +1,102 @@
+import jwt from 'jsonwebtoken';
+
+export type LinkPurpose = 'appointment-manage' | 'waitlist-claim' | 'calendar-feed' | 'subscription-confirm' | 'feedback';
+
+interface LinkTokenPayload {
+  sub: string;
+  purpose: LinkPurpose;
+  // Calendar feeds only: the staff user the feed was issued to and their feed version at the time
+  user?: string;
+  ver?: number;
+}
+
+export interface CalendarFeedClaims {
+  subject: string;
+  userId: string;
+  version: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+class LinkService {
+  private getSecret(): string {
+    const secret = process.env.LINK_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('LINK_SECRET or JWT_SECRET must be set to create signed links');
+    }
+    return secret;
+  }
+
+  // Public site that hosts the patient-facing pages
+  getBaseUrl(): string {
+    const base = process.env.PUBLIC_SITE_URL || (process.env.FRONTEND_URL || 'http://localhost:5173').split(',')[0];
+    return base.trim().replace(/\/+$/, '');
+  }
+
+  sign(purpose: LinkPurpose, subject: string, expiresInSeconds: number): string {
+    const payload: LinkTokenPayload = { sub: subject, purpose };
+    return jwt.sign(payload, this.getSecret(), { expiresIn: expiresInSeconds });
+  }
+
+  // Returns the subject the token was issued for, or null if it is invalid, expired or for another purpose
+  verify(token: string, purpose: LinkPurpose): string | null {
+    try {
+      const payload = jwt.verify(token, this.getSecret()) as LinkTokenPayload;
+      return payload.purpose === purpose ? payload.sub : null;
+    } catch {
+      return null;
+    }
+  }
+
+  buildUrl(path: string, token: string): string {
+    return `${this.getBaseUrl()}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  // Link that lets a patient view, cancel or reschedule one appointment
+  getAppointmentManageUrl(appointmentId: string): string {
+    const ttlDays = parseInt(process.env.SELF_SERVICE_LINK_TTL_DAYS || '60');
+    const token = this.sign('appointment-manage', appointmentId, ttlDays * DAY_SECONDS);
+    return this.buildUrl('/appointments/manage', token);
+  }
+
+  // Link that lets a waitlisted patient claim the slot they were offered; it expires with the offer
+  getWaitlistClaimUrl(entryId: string, expiresAt: Date): string {
+    const expiresInSeconds = Math.max(60, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+    const token = this.sign('waitlist-claim', entryId, expiresInSeconds);
+    return this.buildUrl('/waitlist/claim', token);
+  }
+
+  // Link in the newsletter confirmation email
+  getSubscriptionConfirmUrl(subscriberId: string): string {
+    const ttlDays = parseInt(process.env.SUBSCRIPTION_CONFIRM_TTL_DAYS || '30');
+    const token = this.sign('subscription-confirm', subscriberId, ttlDays * DAY_SECONDS);
+    return this.buildUrl('/newsletter/confirm', token);
+  }
+
+  // Link in the post-visit survey email
+  getFeedbackUrl(appointmentId: string): string {
+    const ttlDays = parseInt(process.env.FEEDBACK_LINK_TTL_DAYS || '30');
+    const token = this.sign('feedback', appointmentId, ttlDays * DAY_SECONDS);
+    return this.buildUrl('/feedback', token);
+  }
+
+  // Token for a staff calendar subscription; the subject is "clinic" or "practitioner:<id>"
+  getCalendarFeedToken(subject: string, userId: string, version: number): string {
+    const ttlDays = parseInt(process.env.CALENDAR_FEED_TTL_DAYS || '365');
+    const payload: LinkTokenPayload = { sub: subject, purpose: 'calendar-feed', user: userId, ver: version };
+    return jwt.sign(payload, this.getSecret(), { expiresIn: ttlDays * DAY_SECONDS });
+  }
+
+  // The caller must still check the version against the user's, which is what makes feeds revocable
+  verifyCalendarFeedToken(token: string): CalendarFeedClaims | null {
+    try {
+      const payload = jwt.verify(token, this.getSecret()) as LinkTokenPayload;
+      if (payload.purpose !== 'calendar-feed' || !payload.user || typeof payload.ver !== 'number') return null;
+      return { subject: payload.sub, userId: payload.user, version: payload.ver };
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const linkService = new LinkService();
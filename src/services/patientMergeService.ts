@@ -0,0 +1,264 @@
+import { Types } from 'mongoose';
+import { Patient, IPatient } from '../models/Patient.js';
+import { PatientMerge, IPatientMerge, IPatientSnapshot } from '../models/PatientMerge.js';
+import { Appointment } from '../models/Appointment.js';
+import { Contact } from '../models/Contact.js';
+import { Subscriber } from '../models/Subscriber.js';
+import { createError } from '../middleware/errorHandler.js';
+import { normalizePhone } from '../utils/contactDetails.js';
+
+// Addresses where dots in the local part are ignored by the provider
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+type PatientIdentity = Pick<IPatient, 'name' | 'email' | 'phone' | 'otherEmails' | 'otherPhones'> & { _id: unknown };
+
+export interface DuplicateMatch {
+  patient: Types.ObjectId;
+  duplicate: Types.ObjectId;
+  score: number; // 0 to 1
+  reasons: string[];
+}
+
+export interface DuplicateSearchOptions {
+  minScore?: number;
+  limit?: number;
+  patientId?: string; // only matches involving this patient
+}
+
+// Lower-case address without "+tags", and without dots for providers that ignore them
+const getCanonicalEmail = (email: string): string => {
+  const [local, domain = ''] = email.toLowerCase().split('@');
+  let canonical = local.split('+')[0];
+  if (DOT_INSENSITIVE_DOMAINS.includes(domain)) canonical = canonical.replace(/\./g, '');
+  return `${canonical}@${domain === 'googlemail.com' ? 'gmail.com' : domain}`;
+};
+
+const getEmailName = (email: string): string => getCanonicalEmail(email).split('@')[0];
+
+// Dice coefficient over letter pairs of the name with its words sorted, so "Sharma Priya" matches "Priya Sharma"
+const getNameSimilarity = (a: string, b: string): number => {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z\s]/g, '').split(/\s+/).filter(Boolean).sort().join(' ');
+  const bigrams = (value: string) => {
+    const pairs: string[] = [];
+    for (let i = 0; i < value.length - 1; i++) pairs.push(value.slice(i, i + 2));
+    return pairs;
+  };
+  const left = bigrams(normalize(a));
+  const right = bigrams(normalize(b));
+  if (left.length === 0 || right.length === 0) return normalize(a) === normalize(b) ? 1 : 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+};
+
+const toSnapshot = (patient: IPatient): IPatientSnapshot => ({
+  _id: patient._id as Types.ObjectId,
+  name: patient.name,
+  email: patient.email,
+  phone: patient.phone,
+  otherEmails: [...patient.otherEmails],
+  otherPhones: [...patient.otherPhones],
+  notes: patient.notes,
+  createdAt: patient.createdAt,
+});
+
+class PatientMergeService {
+  // How alike two patients look, with the reasons behind the score
+  score(a: PatientIdentity, b: PatientIdentity): { score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+
+    const phoneKeys = (patient: PatientIdentity) =>
+      [patient.phone, ...(patient.otherPhones || [])].filter(Boolean).map(phone => normalizePhone(phone!)).filter(Boolean);
+    const leftPhones = phoneKeys(a);
+    if (phoneKeys(b).some(key => leftPhones.includes(key))) {
+      score += 0.5;
+      reasons.push('Same phone number');
+    }
+
+    const emails = (patient: PatientIdentity) => [patient.email, ...(patient.otherEmails || [])];
+    const leftEmails = emails(a);
+    const rightEmails = emails(b);
+    if (rightEmails.some(email => leftEmails.includes(email))) {
+      score += 0.5;
+      reasons.push('Same email address');
+    } else if (rightEmails.some(email => leftEmails.map(getCanonicalEmail).includes(getCanonicalEmail(email)))) {
+      score += 0.4;
+      reasons.push('Email addresses differ only by dots or a +tag');
+    } else if (rightEmails.some(email => leftEmails.map(getEmailName).includes(getEmailName(email)))) {
+      score += 0.2;
+      reasons.push('Same email name at a different domain');
+    }
+
+    const nameSimilarity = getNameSimilarity(a.name, b.name);
+    if (nameSimilarity >= 0.6) {
+      score += 0.3 * nameSimilarity;
+      reasons.push(nameSimilarity === 1 ? 'Same name' : `Similar name (${Math.round(nameSimilarity * 100)}%)`);
+    }
+
+    return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+  }
+
+  // Likely duplicate pairs, best first; only patients sharing a phone or email key are compared
+  async findDuplicates(options: DuplicateSearchOptions = {}): Promise<DuplicateMatch[]> {
+    const minScore = options.minScore ?? 0.5;
+    const patients = await Patient.find().select('name email phone otherEmails otherPhones createdAt').lean();
+
+    const buckets = new Map<string, number[]>();
+    patients.forEach((patient, index) => {
+      const keys = new Set<string>();
+      for (const phone of [patient.phone, ...(patient.otherPhones || [])]) {
+        const key = phone && normalizePhone(phone);
+        if (key) keys.add(`phone:${key}`);
+      }
+      for (const email of [patient.email, ...(patient.otherEmails || [])]) {
+        keys.add(`email:${getEmailName(email)}`);
+      }
+      keys.forEach(key => buckets.set(key, [...(buckets.get(key) || []), index]));
+    });
+
+    const seen = new Set<string>();
+    const matches: DuplicateMatch[] = [];
+    for (const indexes of buckets.values()) {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const a = patients[indexes[i]];
+          const b = patients[indexes[j]];
+          const pairKey = [String(a._id), String(b._id)].sort().join(':');
+          if (seen.has(pairKey)) continue;
+          seen.add(pairKey);
+
+          if (options.patientId && String(a._id) !== options.patientId && String(b._id) !== options.patientId) continue;
+
+          const { score, reasons } = this.score(a, b);
+          if (score < minScore) continue;
+          // The older record is suggested as the one to keep
+          const [older, newer] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+          matches.push({
+            patient: older._id as Types.ObjectId,
+            duplicate: newer._id as Types.ObjectId,
+            score,
+            reasons,
+          });
+        }
+      }
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return options.limit ? matches.slice(0, options.limit) : matches;
+  }
+
+  // Moves everything linked to the duplicate onto the survivor and deletes the duplicate, keeping an undo record
+  async merge(survivorId: string, duplicateId: string, userId?: Types.ObjectId): Promise<IPatientMerge> {
+    if (survivorId === duplicateId) throw createError('A patient cannot be merged into itself', 400);
+
+    const [survivor, duplicate] = await Promise.all([Patient.findById(survivorId), Patient.findById(duplicateId)]);
+    if (!survivor || !duplicate) throw createError('Patient not found', 404);
+
+    const [movedAppointments, movedContacts, movedSubscribers] = await Promise.all([
+      Appointment.find({ patient: duplicate._id }).distinct('_id'),
+      Contact.find({ patient: duplicate._id }).distinct('_id'),
+      Subscriber.find({ patient: duplicate._id }).distinct('_id'),
+    ]);
+
+    // Written first so the merge can always be undone, even if a later step fails
+    const merge = await PatientMerge.create({
+      survivor: survivor._id,
+      survivorBefore: toSnapshot(survivor),
+      merged: toSnapshot(duplicate),
+      movedAppointments,
+      movedContacts,
+      movedSubscribers,
+      score: this.score(survivor, duplicate).score,
+      mergedBy: userId,
+    });
+
+    const addEmails = [duplicate.email, ...duplicate.otherEmails]
+      .filter(email => email !== survivor.email && !survivor.otherEmails.includes(email));
+    const addPhones = [duplicate.phone, ...duplicate.otherPhones]
+      .filter((phone): phone is string => !!phone && phone !== survivor.phone && !survivor.otherPhones.includes(phone));
+    survivor.otherEmails.push(...addEmails);
+    if (!survivor.phone && addPhones.length > 0) {
+      survivor.phone = addPhones.shift();
+    }
+    survivor.otherPhones.push(...addPhones);
+    if (duplicate.notes) {
+      survivor.notes = survivor.notes ? `${survivor.notes}\n\n${duplicate.notes}` : duplicate.notes;
+    }
+
+    await survivor.save();
+    await Promise.all([
+      Appointment.updateMany({ _id: { $in: movedAppointments } }, { $set: { patient: survivor._id } }),
+      Contact.updateMany({ _id: { $in: movedContacts } }, { $set: { patient: survivor._id } }),
+      Subscriber.updateMany({ _id: { $in: movedSubscribers } }, { $set: { patient: survivor._id } }),
+    ]);
+    await Patient.deleteOne({ _id: duplicate._id });
+
+    console.log(`🔗 Patient ${duplicate.email} merged into ${survivor.email}`);
+    return merge;
+  }
+
+  // Restores the merged patient and moves back the records that were moved; later links stay with the survivor
+  async undo(mergeId: string, userId?: Types.ObjectId): Promise<IPatientMerge> {
+    const merge = await PatientMerge.findById(mergeId);
+    if (!merge) throw createError('Merge not found', 404);
+    if (merge.status === 'undone') throw createError('This merge has already been undone', 409);
+
+    const survivor = await Patient.findById(merge.survivor);
+    if (!survivor) {
+      throw createError('The surviving patient no longer exists; undo the merge that removed it first', 409);
+    }
+    const conflict = await Patient.findOne({ _id: { $ne: survivor._id }, email: merge.merged.email });
+    if (conflict) {
+      throw createError(`Another patient now uses ${merge.merged.email}; merge or change that patient first`, 409);
+    }
+
+    const before = merge.survivorBefore;
+    const mergedEmails = [merge.merged.email, ...merge.merged.otherEmails];
+    const mergedPhones = [merge.merged.phone, ...merge.merged.otherPhones].filter(Boolean);
+    survivor.otherEmails = survivor.otherEmails.filter(email => before.otherEmails.includes(email) || !mergedEmails.includes(email));
+    survivor.otherPhones = survivor.otherPhones.filter(phone => before.otherPhones.includes(phone) || !mergedPhones.includes(phone));
+    if (!before.phone && survivor.phone && mergedPhones.includes(survivor.phone)) {
+      survivor.phone = undefined;
+    }
+    if (merge.merged.notes && survivor.notes !== before.notes) {
+      const appended = before.notes ? `${before.notes}\n\n${merge.merged.notes}` : merge.merged.notes;
+      if (survivor.notes === appended) survivor.notes = before.notes;
+    }
+    await survivor.save();
+
+    await Patient.create({
+      _id: merge.merged._id,
+      name: merge.merged.name,
+      email: merge.merged.email,
+      phone: merge.merged.phone,
+      otherEmails: merge.merged.otherEmails,
+      otherPhones: merge.merged.otherPhones,
+      notes: merge.merged.notes,
+      createdAt: merge.merged.createdAt,
+    });
+    await Promise.all([
+      Appointment.updateMany({ _id: { $in: merge.movedAppointments }, patient: survivor._id }, { $set: { patient: merge.merged._id } }),
+      Contact.updateMany({ _id: { $in: merge.movedContacts }, patient: survivor._id }, { $set: { patient: merge.merged._id } }),
+      Subscriber.updateMany({ _id: { $in: merge.movedSubscribers }, patient: survivor._id }, { $set: { patient: merge.merged._id } }),
+    ]);
+
+    merge.status = 'undone';
+    merge.undoneAt = new Date();
+    merge.undoneBy = userId;
+    await merge.save();
+
+    console.log(`↩️ Merge of ${merge.merged.email} into ${survivor.email} undone`);
+    return merge;
+  }
+}
+
+export const patientMergeService = new PatientMergeService();
@@ -0,0 +1,213 @@
+import mongoose, { Types } from 'mongoose';
+import { Patient, IPatient } from '../models/Patient.js';
+import { Appointment } from '../models/Appointment.js';
+import { TreatmentPlan } from '../models/TreatmentPlan.js';
+import { WaitlistEntry } from '../models/WaitlistEntry.js';
+import { Contact } from '../models/Contact.js';
+import { Subscriber } from '../models/Subscriber.js';
+import { EmailLog } from '../models/EmailLog.js';
+import { normalizeEmail, normalizePhone, toE164 } from '../utils/contactDetails.js';
+
+const BACKFILL_BATCH_SIZE = 500;
+
+export interface PatientDetails {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+export type TimelineItemType = 'appointment' | 'message' | 'email' | 'subscription';
+
+export interface TimelineItem {
+  type: TimelineItemType;
+  at: Date;
+  id: Types.ObjectId;
+  summary: string;
+  data: Record<string, unknown>;
+}
+
+class PatientService {
+  // Finds the patient by email, then by phone (including those of merged duplicates), creating one if neither matches
+  async findOrCreate(details: PatientDetails): Promise<IPatient> {
+    const email = normalizeEmail(details.email);
+    const phone = details.phone ? normalizePhone(details.phone) : '';
+
+    let patient = await Patient.findOne({ $or: [{ email }, { otherEmails: email }] });
+    if (!patient && phone) {
+      patient = await Patient.findOne({ $or: [{ phone }, { otherPhones: phone }] });
+    }
+
+    if (patient) {
+      if (phone && !patient.phone) {
+        patient.phone = phone;
+        await patient.save();
+      }
+      return patient;
+    }
+
+    try {
+      patient = await Patient.create({ name: details.name, email, phone: phone || undefined });
+    } catch (error: any) {
+      // Another request created the same patient in the meantime
+      if (error?.code === 11000) return (await Patient.findOne({ email }))!;
+      throw error;
+    }
+    await Subscriber.updateMany({ email, patient: null }, { $set: { patient: patient._id } });
+    return patient;
+  }
+
+  // Patient id for a new record; linking never stops the booking or message from being saved
+  async resolveId(details: PatientDetails): Promise<Types.ObjectId | undefined> {
+    try {
+      return (await this.findOrCreate(details))._id as Types.ObjectId;
+    } catch (error) {
+      console.warn(`⚠️ Failed to link ${details.email} to a patient record:`, error);
+      return undefined;
+    }
+  }
+
+  // Appointments, messages, emails and subscriptions for the patient, oldest first
+  async getTimeline(patient: IPatient): Promise<TimelineItem[]> {
+    const [appointments, contacts] = await Promise.all([
+      Appointment.find({ patient: patient._id }),
+      Contact.find({ patient: patient._id }),
+    ]);
+    // Records matched by phone may carry another address
+    const addresses = Array.from(new Set([patient.email, ...patient.otherEmails, ...appointments.map(appointment => appointment.email), ...contacts.map(contact => contact.email)]));
+    const [emails, subscribers] = await Promise.all([
+      EmailLog.find({ to: { $in: addresses } }),
+      Subscriber.find({ $or: [{ patient: patient._id }, { email: { $in: addresses } }] }),
+    ]);
+
+    const items: TimelineItem[] = [
+      ...appointments.map(appointment => ({
+        type: 'appointment' as const,
+        at: appointment.createdAt,
+        id: appointment._id as Types.ObjectId,
+        summary: `${appointment.treatmentType} booked for ${(appointment.confirmedDate || appointment.preferredDate).toISOString().slice(0, 10)} ${appointment.confirmedTime || appointment.preferredTime}`,
+        data: {
+          referenceId: appointment.referenceId,
+          treatmentType: appointment.treatmentType,
+          startsAt: appointment.startsAt,
+          status: appointment.status,
+          statusHistory: appointment.statusHistory,
+          rescheduleHistory: appointment.rescheduleHistory,
+          messages: appointment.messages,
+        },
+      })),
+      ...contacts.map(contact => ({
+        type: 'message' as const,
+        at: contact.createdAt,
+        id: contact._id as Types.ObjectId,
+        summary: contact.subject,
+        data: {
+          subject: contact.subject,
+          message: contact.message,
+          status: contact.status,
+          repliedAt: contact.repliedAt,
+          thread: contact.thread,
+        },
+      })),
+      ...emails.map(email => ({
+        type: 'email' as const,
+        at: email.createdAt,
+        id: email._id as Types.ObjectId,
+        summary: email.subject,
+        data: {
+          kind: email.kind,
+          subject: email.subject,
+          status: email.status,
+        },
+      })),
+      ...subscribers.map(subscriber => ({
+        type: 'subscription' as const,
+        at: subscriber.createdAt,
+        id: subscriber._id as Types.ObjectId,
+        summary: `Subscribed to the newsletter${subscriber.source ? ` (${subscriber.source})` : ''}`,
+        data: {
+          email: subscriber.email,
+          source: subscriber.source,
+        },
+      })),
+    ];
+
+    return items.sort((a, b) => a.at.getTime() - b.at.getTime());
+  }
+
+  /**
+   * Converts phone numbers saved before they were stored in E.164, keeping the original in phoneRaw.
+   * Numbers that cannot be parsed are left as they were. Safe to run on every start.
+   */
+  async backfillPhoneNumbers(): Promise<number> {
+    let updated = 0;
+    let invalid = 0;
+
+    const collections: mongoose.Model<any>[] = [Appointment, TreatmentPlan, WaitlistEntry];
+    for (const model of collections) {
+      let batch: mongoose.AnyBulkWriteOperation[] = [];
+      for await (const record of model.find({ phoneRaw: { $exists: false } }).select('phone').lean().cursor()) {
+        const phone = toE164(record.phone || '');
+        if (!phone) invalid++;
+        batch.push({ updateOne: { filter: { _id: record._id }, update: { $set: { phone: phone || record.phone, phoneRaw: record.phone } } } });
+        if (batch.length >= BACKFILL_BATCH_SIZE) {
+          updated += (await model.bulkWrite(batch)).modifiedCount;
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        updated += (await model.bulkWrite(batch)).modifiedCount;
+      }
+    }
+
+    // Patients only hold normalized numbers, which all start with "+" once converted
+    const notE164 = { $type: 'string', $not: /^\+/ };
+    for await (const patient of Patient.find({ $or: [{ phone: notE164 }, { otherPhones: { $elemMatch: notE164 } }] }).cursor()) {
+      const convert = (phone: string) => toE164(phone) || phone;
+      if (patient.phone) patient.phone = convert(patient.phone);
+      patient.otherPhones = Array.from(new Set(patient.otherPhones.map(convert)));
+      if (!patient.isModified()) continue;
+      await patient.save();
+      updated++;
+    }
+
+    if (updated > 0) {
+      console.log(`📞 Converted ${updated} stored phone number(s) to E.164`);
+    }
+    if (invalid > 0) {
+      console.warn(`⚠️ ${invalid} stored phone number(s) could not be parsed and were left as they were`);
+    }
+    return updated;
+  }
+
+  // Links appointments and messages saved before patient records existed; safe to run on every start
+  async backfillLinks(): Promise<number> {
+    let linked = 0;
+    const cache = new Map<string, Types.ObjectId | undefined>();
+    const resolve = async (details: PatientDetails) => {
+      const key = normalizeEmail(details.email);
+      if (!cache.has(key)) cache.set(key, await this.resolveId(details));
+      return cache.get(key);
+    };
+
+    for await (const appointment of Appointment.find({ patient: null }).select('name email phone').lean().cursor()) {
+      const patientId = await resolve(appointment);
+      if (!patientId) continue;
+      await Appointment.updateOne({ _id: appointment._id }, { $set: { patient: patientId } });
+      linked++;
+    }
+
+    for await (const contact of Contact.find({ patient: null }).select('name email').lean().cursor()) {
+      const patientId = await resolve(contact);
+      if (!patientId) continue;
+      await Contact.updateOne({ _id: contact._id }, { $set: { patient: patientId } });
+      linked++;
+    }
+
+    if (linked > 0) {
+      console.log(`🧑‍⚕️ Linked ${linked} appointment(s) and message(s) to patient records`);
+    }
+    return linked;
+  }
+}
+
+export const patientService = new PatientService();
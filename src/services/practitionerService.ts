@@ -0,0 +1,40 @@
+import { Types } from 'mongoose';
+import { Practitioner, IPractitioner, ILeave, IWorkingHours } from '../models/Practitioner.js';
+import { parseClockTime, getDayRange, getDayOfWeek } from '../utils/timeSlots.js';
+
+class PractitionerService {
+  // Until the first practitioner is set up, bookings are checked against clinic capacity only
+  async isConfigured(): Promise<boolean> {
+    return (await Practitioner.countDocuments({ isActive: true })) > 0;
+  }
+
+  // Active practitioners who perform the treatment; every active practitioner when no treatment is given
+  async getQualified(treatmentId?: Types.ObjectId | null): Promise<IPractitioner[]> {
+    const filter: any = { isActive: true };
+    if (treatmentId) filter.treatments = treatmentId;
+    return Practitioner.find(filter).sort({ name: 1 });
+  }
+
+  getLeaveForDate(practitioner: IPractitioner, dateKey: string): ILeave | undefined {
+    const { start } = getDayRange(dateKey);
+    return practitioner.leave.find(leave => {
+      const lastDay = leave.endDate || leave.date;
+      return leave.date <= start && lastDay >= start;
+    });
+  }
+
+  getWorkingHoursForDate(practitioner: IPractitioner, dateKey: string): IWorkingHours[] {
+    if (this.getLeaveForDate(practitioner, dateKey)) return [];
+    const dayOfWeek = getDayOfWeek(dateKey);
+    return practitioner.workingHours.filter(hours => hours.dayOfWeek === dayOfWeek);
+  }
+
+  // Whether the practitioner is on duty for the whole of [start, end) minutes on the day
+  isWorking(practitioner: IPractitioner, dateKey: string, start: number, end: number): boolean {
+    return this.getWorkingHoursForDate(practitioner, dateKey).some(hours =>
+      parseClockTime(hours.startTime) <= start && end <= parseClockTime(hours.endTime)
+    );
+  }
+}
+
+export const practitionerService = new PractitionerService();
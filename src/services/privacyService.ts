@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import { Types, FilterQuery } from 'mongoose';
+import { Patient } from '../models/Patient.js';
+import { PatientMerge } from '../models/PatientMerge.js';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { TreatmentPlan } from '../models/TreatmentPlan.js';
+import { Contact, IContact } from '../models/Contact.js';
+import { Subscriber } from '../models/Subscriber.js';
+import { WaitlistEntry } from '../models/WaitlistEntry.js';
+import { EmailLog } from '../models/EmailLog.js';
+import { Feedback } from '../models/Feedback.js';
+import { PrivacyRequest, IPrivacyRequest, PrivacyRecordCounts } from '../models/PrivacyRequest.js';
+import { ACTIVE_APPOINTMENT_STATUSES } from './availabilityService.js';
+import { treatmentPlanService } from './treatmentPlanService.js';
+import { waitlistService } from './waitlistService.js';
+import { feedbackService } from './feedbackService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { normalizeEmail, normalizePhone } from '../utils/contactDetails.js';
+
+// Placeholders that still pass the model validators, so anonymised records can be saved again
+const ERASED_NAME = 'Erased patient';
+const ERASED_EMAIL = 'erased@example.com';
+const ERASED_PHONE = '0000000000';
+const ERASED_SUBJECT = '[erased]';
+const ERASED_MESSAGE = '[erased on request]';
+const ERASED_REASON = 'Patient data erased on request';
+
+export interface PrivacySubject {
+  email?: string;
+  phone?: string;
+}
+
+export type PrivacyExportFormat = 'json' | 'csv';
+
+export interface PrivacyRequestOptions {
+  userId?: Types.ObjectId;
+  reason?: string;
+}
+
+export interface PrivacyExport {
+  exportedAt: Date;
+  records: PrivacyRecordCounts;
+  data: Record<string, { _id: unknown }[]>; // collection name to plain records
+}
+
+export interface ErasureSummary {
+  dryRun: boolean;
+  deleted: PrivacyRecordCounts;
+  anonymised: PrivacyRecordCounts;
+  cancelledAppointments: number;
+  request: IPrivacyRequest;
+}
+
+const hashIdentifier = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const maskEmail = (email: string): string => {
+  const [local, domain] = email.split('@');
+  const visible = local.length > 2 ? `${local[0]}${'*'.repeat(local.length - 2)}${local[local.length - 1]}` : '*'.repeat(local.length);
+  return `${visible}@${domain}`;
+};
+
+const maskPhone = (phone: string): string => `${'*'.repeat(Math.max(0, phone.length - 4))}${phone.slice(-4)}`;
+
+const countRecords = (data: Record<string, unknown[]>): PrivacyRecordCounts =>
+  Object.fromEntries(Object.entries(data).map(([collection, records]) => [collection, records.length]));
+
+// Flattens a record into dotted paths, e.g. { statusHistory: [{ to }] } becomes "statusHistory.0.to"
+const flatten = (value: unknown, path: string, rows: [string, string][]): void => {
+  if (value === null || value === undefined) return;
+  if (value instanceof Date) {
+    rows.push([path, value.toISOString()]);
+  } else if (value instanceof Types.ObjectId) {
+    rows.push([path, String(value)]);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}.${index}`, rows));
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, item]) => flatten(item, path ? `${path}.${key}` : key, rows));
+  } else {
+    rows.push([path, String(value)]);
+  }
+};
+
+const csvCell = (value: string): string => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+class PrivacyService {
+  // Everything held about the person, matched on their email and phone and on the patient records those lead to
+  private async findRecords(subject: PrivacySubject) {
+    const emails = new Set<string>();
+    const phones = new Set<string>();
+    if (subject.email) emails.add(normalizeEmail(subject.email));
+    if (subject.phone && normalizePhone(subject.phone)) phones.add(normalizePhone(subject.phone));
+
+    const patients = await Patient.find({
+      $or: [
+        { email: { $in: Array.from(emails) } },
+        { otherEmails: { $in: Array.from(emails) } },
+        { phone: { $in: Array.from(phones) } },
+        { otherPhones: { $in: Array.from(phones) } },
+      ],
+    });
+    for (const patient of patients) {
+      [patient.email, ...patient.otherEmails].forEach(email => emails.add(email));
+      [patient.phone, ...patient.otherPhones].forEach(phone => phone && phones.add(phone));
+    }
+
+    const patientIds = patients.map(patient => patient._id as Types.ObjectId);
+    const emailList = Array.from(emails);
+    const phoneList = Array.from(phones);
+    const byPerson = (options: { patient?: boolean; phone?: boolean }) => ({
+      $or: [
+        ...(options.patient ? [{ patient: { $in: patientIds } }] : []),
+        { email: { $in: emailList } },
+        ...(options.phone ? [{ phone: { $in: phoneList } }] : []),
+      ],
+    });
+
+    const [appointments, treatmentPlans, contacts, subscribers, waitlistEntries, emailLogs, patientMerges] = await Promise.all([
+      Appointment.find(byPerson({ patient: true, phone: true })).sort({ createdAt: 1 }),
+      TreatmentPlan.find(byPerson({ phone: true })).sort({ createdAt: 1 }),
+      Contact.find(byPerson({ patient: true })).sort({ createdAt: 1 }),
+      Subscriber.find(byPerson({ patient: true })).sort({ createdAt: 1 }),
+      WaitlistEntry.find(byPerson({ phone: true })).sort({ createdAt: 1 }),
+      EmailLog.find({ to: { $in: emailList } }).sort({ createdAt: 1 }),
+      PatientMerge.find({
+        $or: [
+          { survivor: { $in: patientIds } },
+          { 'merged._id': { $in: patientIds } },
+          { 'merged.email': { $in: emailList } },
+          { 'survivorBefore.email': { $in: emailList } },
+        ],
+      }).sort({ createdAt: 1 }),
+    ]);
+
+    const feedback = await Feedback.find({ appointment: { $in: appointments.map(appointment => appointment._id) } }).sort({ createdAt: 1 });
+
+    return { patients, appointments, treatmentPlans, contacts, subscribers, waitlistEntries, emailLogs, patientMerges, feedback };
+  }
+
+  private assertSubject(subject: PrivacySubject): void {
+    if (this.getSubjectHashes(subject).length === 0) {
+      throw createError('Please provide an email address or phone number', 400);
+    }
+  }
+
+  private async log(
+    type: IPrivacyRequest['type'],
+    subject: PrivacySubject,
+    options: PrivacyRequestOptions,
+    details: Partial<Pick<IPrivacyRequest, 'format' | 'dryRun' | 'status' | 'records' | 'deleted' | 'anonymised' | 'error'>>
+  ): Promise<IPrivacyRequest> {
+    return PrivacyRequest.create({
+      type,
+      subjectHashes: this.getSubjectHashes(subject),
+      subjectMasked: this.maskSubject(subject),
+      reason: options.reason,
+      requestedBy: options.userId,
+      status: 'completed',
+      ...details,
+    });
+  }
+
+  // One hash per identifier, so a later lookup by email or by phone alone finds the request
+  getSubjectHashes(subject: PrivacySubject): string[] {
+    const hashes: string[] = [];
+    if (subject.email) hashes.push(hashIdentifier(`email:${normalizeEmail(subject.email)}`));
+    const phone = subject.phone && normalizePhone(subject.phone);
+    if (phone) hashes.push(hashIdentifier(`phone:${phone}`));
+    return hashes;
+  }
+
+  private maskSubject(subject: PrivacySubject): string {
+    const phone = subject.phone && normalizePhone(subject.phone);
+    return [subject.email && maskEmail(normalizeEmail(subject.email)), phone && maskPhone(phone)]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  // Replaces the patient's details on one appointment and drops their feedback comments; status, treatment,
+  // practitioner, dates and ratings are kept for statistics
+  async anonymiseAppointment(appointment: IAppointment, now: Date = new Date()): Promise<void> {
+    appointment.name = ERASED_NAME;
+    appointment.email = ERASED_EMAIL;
+    appointment.phone = ERASED_PHONE;
+    appointment.phoneRaw = undefined;
+    appointment.patient = undefined;
+    appointment.message = undefined;
+    appointment.notes = undefined;
+    appointment.cancelledReason = undefined;
+    // Status and reschedule history keep their dates, but not the patient's name or own words
+    for (const entry of [...appointment.statusHistory, ...appointment.rescheduleHistory]) {
+      const actor = 'changedBy' in entry ? entry.changedBy : entry.rescheduledBy;
+      if (actor.kind === 'patient') {
+        actor.name = undefined;
+        entry.reason = undefined;
+      }
+    }
+    // Staff messages were written to the patient by name
+    for (const message of appointment.messages) {
+      message.subject = ERASED_SUBJECT;
+      message.body = ERASED_MESSAGE;
+    }
+    appointment.anonymisedAt = now;
+    await appointment.save();
+    await feedbackService.anonymiseForAppointments([appointment._id as Types.ObjectId], now);
+  }
+
+  // Replaces the sender's details and the text of every message in the thread; status, priority and dates are
+  // kept for statistics
+  async anonymiseContacts(filter: FilterQuery<IContact>, now: Date = new Date()): Promise<number> {
+    const result = await Contact.updateMany(filter, [
+      {
+        $set: {
+          name: ERASED_NAME,
+          email: ERASED_EMAIL,
+          subject: ERASED_SUBJECT,
+          message: ERASED_MESSAGE,
+          attachments: [],
+          thread: {
+            $map: {
+              input: { $ifNull: ['$thread', []] },
+              in: { $mergeObjects: ['$$this', { subject: ERASED_SUBJECT, body: ERASED_MESSAGE, from: ERASED_EMAIL, attachments: [] }] },
+            },
+          },
+          anonymisedAt: now,
+        },
+      },
+      { $unset: 'patient' },
+    ]);
+    return result.modifiedCount;
+  }
+
+  // A complete copy of the person's records; every export is logged
+  async export(subject: PrivacySubject, format: PrivacyExportFormat, options: PrivacyRequestOptions = {}): Promise<PrivacyExport> {
+    this.assertSubject(subject);
+    try {
+      const found = await this.findRecords(subject);
+      const data = {
+        patients: found.patients.map(patient => patient.toObject()),
+        appointments: found.appointments.map(appointment => appointment.toObject({ virtuals: false })),
+        treatmentPlans: found.treatmentPlans.map(plan => plan.toObject()),
+        contacts: found.contacts.map(contact => contact.toObject({ virtuals: false })),
+        subscribers: found.subscribers.map(subscriber => subscriber.toObject()),
+        waitlistEntries: found.waitlistEntries.map(entry => entry.toObject()),
+        emails: found.emailLogs.map(email => email.toObject()),
+        patientMerges: found.patientMerges.map(merge => merge.toObject()),
+        feedback: found.feedback.map(feedback => feedback.toObject()),
+      };
+      const records = countRecords(data);
+
+      await this.log('export', subject, options, { format, records });
+      console.log(`📦 Exported ${Object.values(records).reduce((sum, count) => sum + count, 0)} record(s) for a privacy request`);
+      return { exportedAt: new Date(), records, data };
+    } catch (error: any) {
+      await this.log('export', subject, options, { format, status: 'failed', error: error?.message });
+      throw error;
+    }
+  }
+
+  // One row per field: collection, record id, dotted field path, value
+  toCsv(exported: PrivacyExport): string {
+    const lines = ['collection,id,field,value'];
+    for (const [collection, records] of Object.entries(exported.data)) {
+      for (const record of records) {
+        const rows: [string, string][] = [];
+        flatten(record, '', rows);
+        for (const [field, value] of rows) {
+          if (field === '_id' || field === '__v') continue;
+          lines.push([collection, String(record._id), field, value].map(csvCell).join(','));
+        }
+      }
+    }
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Removes the person's details. Appointments, treatment plans, messages and feedback are anonymised in place so
+   * the appointment, contact and satisfaction statistics keep their counts; patient records, subscriptions, waitlist entries,
+   * email logs and merge records are deleted. Upcoming appointments are cancelled first.
+   */
+  async erase(subject: PrivacySubject, options: PrivacyRequestOptions & { dryRun?: boolean } = {}): Promise<ErasureSummary> {
+    const dryRun = !!options.dryRun;
+    this.assertSubject(subject);
+    try {
+      const found = await this.findRecords(subject);
+      const deleted = countRecords({
+        patients: found.patients,
+        subscribers: found.subscribers,
+        waitlistEntries: found.waitlistEntries,
+        emails: found.emailLogs,
+        patientMerges: found.patientMerges,
+      });
+      const anonymised = countRecords({
+        appointments: found.appointments,
+        treatmentPlans: found.treatmentPlans,
+        contacts: found.contacts,
+        feedback: found.feedback,
+      });
+      const now = new Date();
+      const upcoming = found.appointments.filter(appointment =>
+        ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) && (!appointment.startsAt || appointment.startsAt > now)
+      );
+
+      if (dryRun) {
+        const request = await this.log('erasure', subject, options, { dryRun, records: { ...deleted, ...anonymised }, deleted, anonymised });
+        return { dryRun, deleted, anonymised, cancelledAppointments: upcoming.length, request };
+      }
+
+      for (const appointment of found.appointments) {
+        const wasUpcoming = upcoming.includes(appointment);
+        if (wasUpcoming) {
+          appointment.transitionTo('cancelled', { kind: 'system' }, ERASED_REASON);
+        }
+        await this.anonymiseAppointment(appointment, now);
+
+        if (wasUpcoming) {
+          await waitlistService.offerFreedSlot(appointment);
+        }
+      }
+
+      const planIds = new Set(found.appointments.filter(appointment => appointment.treatmentPlan).map(appointment => String(appointment.treatmentPlan)));
+      for (const planId of planIds) {
+        await treatmentPlanService.syncStatus(planId);
+      }
+
+      await Promise.all([
+        TreatmentPlan.updateMany(
+          { _id: { $in: found.treatmentPlans.map(plan => plan._id) } },
+          { $set: { name: ERASED_NAME, email: ERASED_EMAIL, phone: ERASED_PHONE, anonymisedAt: now }, $unset: { phoneRaw: 1, notes: 1, cancelledReason: 1 } }
+        ),
+        this.anonymiseContacts({ _id: { $in: found.contacts.map(contact => contact._id) } }, now),
+        Subscriber.deleteMany({ _id: { $in: found.subscribers.map(subscriber => subscriber._id) } }),
+        WaitlistEntry.deleteMany({ _id: { $in: found.waitlistEntries.map(entry => entry._id) } }),
+        EmailLog.deleteMany({ _id: { $in: found.emailLogs.map(email => email._id) } }),
+        PatientMerge.deleteMany({ _id: { $in: found.patientMerges.map(merge => merge._id) } }),
+      ]);
+      await Patient.deleteMany({ _id: { $in: found.patients.map(patient => patient._id) } });
+
+      const request = await this.log('erasure', subject, options, { records: { ...deleted, ...anonymised }, deleted, anonymised });
+      console.log(`🧹 Erased personal data for a privacy request (${request._id})`);
+      return { dryRun, deleted, anonymised, cancelledAppointments: upcoming.length, request };
+    } catch (error: any) {
+      await this.log('erasure', subject, options, { dryRun, status: 'failed', error: error?.message });
+      throw error;
+    }
+  }
+}
+
+export const privacyService = new PrivacyService();
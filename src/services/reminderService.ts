@@ -0,0 +1,92 @@
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { emailService } from './emailService.js';
+import { treatmentService } from './treatmentService.js';
+import { linkService } from './linkService.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DueReminder {
+  appointment: IAppointment;
+  startsAt: Date;
+}
+
+export interface ReminderRunSummary {
+  due: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+class ReminderService {
+  getLeadHours(): number {
+    return Math.max(1, parseFloat(process.env.REMINDER_LEAD_HOURS || '24'));
+  }
+
+  // Confirmed appointments starting within the lead window that have not had a reminder yet
+  async findDue(now: Date = new Date()): Promise<DueReminder[]> {
+    const windowEnd = new Date(now.getTime() + this.getLeadHours() * HOUR_MS);
+
+    const appointments = await Appointment.find({
+      status: 'confirmed',
+      reminderSent: { $ne: true },
+      startsAt: { $gt: now, $lte: windowEnd },
+    }).sort({ startsAt: 1 });
+
+    return appointments.map(appointment => ({ appointment, startsAt: appointment.startsAt! }));
+  }
+
+  // Sends every due reminder; each appointment is claimed atomically first so parallel runs never double-send
+  async sendDueReminders(now: Date = new Date()): Promise<ReminderRunSummary> {
+    const summary: ReminderRunSummary = { due: 0, sent: 0, failed: 0, skipped: 0 };
+
+    if (!emailService.isEnabled()) {
+      console.warn('⚠️ Email service is disabled. Skipping appointment reminders.');
+      return summary;
+    }
+
+    const due = await this.findDue(now);
+    summary.due = due.length;
+
+    for (const { appointment } of due) {
+      const claimed = await Appointment.findOneAndUpdate(
+        { _id: appointment._id, status: 'confirmed', reminderSent: { $ne: true } },
+        { $set: { reminderSent: true, reminderSentAt: new Date() } },
+        { new: true }
+      );
+      if (!claimed) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        await emailService.sendAppointmentReminder({
+          name: claimed.name,
+          email: claimed.email,
+          treatmentType: claimed.treatmentType,
+          appointmentDate: (claimed.confirmedDate || claimed.preferredDate).toISOString(),
+          appointmentTime: claimed.confirmedTime || claimed.preferredTime,
+          treatment: await treatmentService.getForAppointment(claimed),
+          manageUrl: linkService.getAppointmentManageUrl(String(claimed._id)),
+          reconfirmationRequired: claimed.requiresReconfirmation && !claimed.reconfirmedAt,
+        });
+        summary.sent++;
+      } catch (error) {
+        // Release the claim so the next run retries
+        await Appointment.updateOne(
+          { _id: claimed._id },
+          { $set: { reminderSent: false }, $unset: { reminderSentAt: 1 } }
+        );
+        summary.failed++;
+        console.warn(`⚠️ Failed to send reminder for ${claimed.referenceId}:`, error);
+      }
+    }
+
+    if (summary.sent > 0) {
+      console.log(`🔔 Sent ${summary.sent} appointment reminder(s)`);
+    }
+
+    return summary;
+  }
+}
+
+export const reminderService = new ReminderService();
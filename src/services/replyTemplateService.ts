@@ -0,0 +1,135 @@
+import { Types } from 'mongoose';
+import { ReplyTemplate, IReplyTemplate, ReplyTemplateTarget, REPLY_TEMPLATE_VARIABLES } from '../models/ReplyTemplate.js';
+import { IContact } from '../models/Contact.js';
+import { IAppointment } from '../models/Appointment.js';
+import { Practitioner } from '../models/Practitioner.js';
+import { IUser } from '../models/User.js';
+import { linkService } from './linkService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { formatCalendarDate } from '../utils/timeSlots.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export type ReplyTemplateDefinition = Pick<IReplyTemplate, 'target' | 'subject' | 'body'>;
+
+export type TemplateValues = Record<string, string | undefined>;
+
+export interface RenderedTemplate {
+  subject?: string;
+  body: string;
+  missing: string[]; // placeholders that had no value and were left empty
+}
+
+// Variable names in the order they first appear
+const getPlaceholders = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+class ReplyTemplateService {
+  // Rejects placeholders the target cannot fill, so a typo is caught when the template is saved rather than sent
+  validate(definition: ReplyTemplateDefinition): void {
+    const allowed = REPLY_TEMPLATE_VARIABLES[definition.target];
+    const unknown = getPlaceholders(`${definition.subject || ''}\n${definition.body}`).filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      throw createError(`Unknown placeholders for ${definition.target} templates: ${unknown.join(', ')}. Use: ${allowed.join(', ')}`, 400);
+    }
+
+    if (definition.target === 'appointment' && !definition.subject) {
+      throw createError('Appointment templates need a subject', 400);
+    }
+    if (definition.target === 'contact' && definition.subject) {
+      throw createError('Contact templates reply under the message\'s own subject, so they cannot have one', 400);
+    }
+  }
+
+  private getCommonValues(record: IContact | IAppointment, user: IUser): TemplateValues {
+    return {
+      name: record.name,
+      firstName: record.name.trim().split(/\s+/)[0],
+      email: record.email,
+      referenceId: record.referenceId,
+      staffName: user.name,
+      clinicName: process.env.CLINIC_NAME,
+      clinicPhone: process.env.CLINIC_PHONE,
+      clinicEmail: process.env.CLINIC_EMAIL,
+      clinicAddress: process.env.CLINIC_ADDRESS,
+    };
+  }
+
+  async getContactValues(contact: IContact, user: IUser): Promise<TemplateValues> {
+    return { ...this.getCommonValues(contact, user), subject: contact.subject };
+  }
+
+  async getAppointmentValues(appointment: IAppointment, user: IUser): Promise<TemplateValues> {
+    const practitioner = appointment.practitioner
+      ? await Practitioner.findById(appointment.practitioner).select('name').lean()
+      : null;
+
+    return {
+      ...this.getCommonValues(appointment, user),
+      treatmentType: appointment.treatmentType,
+      appointmentDate: formatCalendarDate(appointment.confirmedDate || appointment.preferredDate),
+      appointmentTime: appointment.confirmedTime || appointment.preferredTime,
+      practitionerName: practitioner?.name,
+      status: appointment.status,
+      manageUrl: linkService.getAppointmentManageUrl(String(appointment._id)),
+    };
+  }
+
+  // Fills each {{placeholder}}; values given by staff take precedence over the record's
+  render(template: ReplyTemplateDefinition, values: TemplateValues, overrides: TemplateValues = {}): RenderedTemplate {
+    const merged: TemplateValues = { ...values, ...overrides };
+    const missing = new Set<string>();
+    const fill = (text: string) => text.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      const value = merged[name]?.trim();
+      if (!value) missing.add(name);
+      return value || '';
+    });
+
+    return {
+      subject: template.subject ? fill(template.subject) : undefined,
+      body: fill(template.body),
+      missing: Array.from(missing),
+    };
+  }
+
+  /**
+   * Renders an active template for a contact or appointment. Sending is refused (422) while a placeholder has no
+   * value, so a patient never gets "Dear ," - staff can pass the missing values in overrides.
+   */
+  async prepare(
+    template: IReplyTemplate,
+    record: { contact: IContact } | { appointment: IAppointment },
+    user: IUser,
+    overrides: TemplateValues = {}
+  ): Promise<RenderedTemplate> {
+    const target: ReplyTemplateTarget = 'contact' in record ? 'contact' : 'appointment';
+    if (template.target !== target) {
+      throw createError(`"${template.name}" is a template for ${template.target} messages`, 400);
+    }
+    if (!template.isActive) {
+      throw createError(`"${template.name}" is no longer in use`, 409);
+    }
+
+    const values = 'contact' in record
+      ? await this.getContactValues(record.contact, user)
+      : await this.getAppointmentValues(record.appointment, user);
+    const rendered = this.render(template, values, overrides);
+    if (rendered.missing.length > 0) {
+      throw createError(`No value for ${rendered.missing.join(', ')}; pass them in variables`, 422);
+    }
+    return rendered;
+  }
+
+  async recordUse(template: IReplyTemplate): Promise<void> {
+    await ReplyTemplate.updateOne({ _id: template._id }, { $inc: { usageCount: 1 }, $set: { lastUsedAt: new Date() } })
+      .catch(error => console.warn(`⚠️ Failed to record use of reply template ${template._id}:`, error));
+  }
+
+  async findTemplate(id: string | Types.ObjectId): Promise<IReplyTemplate> {
+    const template = await ReplyTemplate.findById(id);
+    if (!template) throw createError('Reply template not found', 404);
+    return template;
+  }
+}
+
+export const replyTemplateService = new ReplyTemplateService();
@@ -0,0 +1,226 @@
+import mongoose, { FilterQuery, Types } from 'mongoose';
+import {
+  RetentionPolicy,
+  IRetentionPolicy,
+  RetentionTarget,
+  RetentionAction,
+} from '../models/RetentionPolicy.js';
+import { Contact, CONTACT_STATUSES } from '../models/Contact.js';
+import { Appointment, APPOINTMENT_STATUSES } from '../models/Appointment.js';
+import { Subscriber } from '../models/Subscriber.js';
+import { ACTIVE_APPOINTMENT_STATUSES } from './availabilityService.js';
+import { privacyService } from './privacyService.js';
+import { createError } from '../middleware/errorHandler.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PREVIEW_SAMPLE_SIZE = 20;
+
+export type RetentionPolicyDefinition = Pick<IRetentionPolicy, 'target' | 'action' | 'dateField' | 'afterDays' | 'statuses'>;
+
+interface TargetRules {
+  model: () => mongoose.Model<any>;
+  actions: RetentionAction[];
+  dateFields: string[];
+  statuses: readonly string[];
+}
+
+// What each policy target allows. Appointments are only anonymised, never deleted, so the statistics keep them,
+// and pending or confirmed appointments are never touched
+const TARGET_RULES: Record<RetentionTarget, TargetRules> = {
+  contacts: {
+    model: () => Contact,
+    actions: ['archive', 'anonymise', 'delete'],
+    dateFields: ['createdAt', 'repliedAt', 'archivedAt'],
+    statuses: CONTACT_STATUSES,
+  },
+  appointments: {
+    model: () => Appointment,
+    actions: ['anonymise'],
+    dateFields: ['createdAt', 'startsAt', 'endsAt', 'cancelledAt'],
+    statuses: APPOINTMENT_STATUSES.filter(status => !ACTIVE_APPOINTMENT_STATUSES.includes(status)),
+  },
+  subscribers: {
+    model: () => Subscriber,
+    actions: ['delete'],
+    dateFields: ['createdAt', 'confirmedAt'],
+    statuses: ['confirmed', 'unconfirmed'],
+  },
+};
+
+// Installed disabled, so nothing is removed until an admin has previewed and enabled them
+const DEFAULT_POLICIES = [
+  {
+    name: 'Archive replied messages',
+    description: 'Archive contact messages 90 days after they were replied to',
+    target: 'contacts',
+    action: 'archive',
+    dateField: 'repliedAt',
+    afterDays: 90,
+    statuses: ['replied'],
+  },
+  {
+    name: 'Anonymise old cancelled appointments',
+    description: 'Remove patient details from appointments two years after they were cancelled',
+    target: 'appointments',
+    action: 'anonymise',
+    dateField: 'cancelledAt',
+    afterDays: 730,
+    statuses: ['cancelled'],
+  },
+  {
+    name: 'Purge unconfirmed subscribers',
+    description: 'Delete newsletter sign-ups that were not confirmed within 30 days',
+    target: 'subscribers',
+    action: 'delete',
+    dateField: 'createdAt',
+    afterDays: 30,
+    statuses: ['unconfirmed'],
+  },
+];
+
+export interface RetentionPreview {
+  cutoff: Date;
+  matched: number;
+  sample: Record<string, unknown>[]; // ids, dates and statuses only
+}
+
+export interface RetentionRunSummary {
+  policies: number;
+  affected: number;
+  results: { policy: string; matched: number; affected: number; error?: string }[];
+}
+
+class RetentionService {
+  // Installs the default policies the first time the server starts
+  async ensureDefaults(): Promise<void> {
+    const count = await RetentionPolicy.countDocuments();
+    if (count > 0) return;
+
+    await RetentionPolicy.insertMany(DEFAULT_POLICIES);
+    console.log(`🗄️ Installed ${DEFAULT_POLICIES.length} default retention policies (disabled)`);
+  }
+
+  // Rejects combinations the target does not support, e.g. deleting appointments
+  validate(definition: RetentionPolicyDefinition): void {
+    const rules = TARGET_RULES[definition.target];
+    if (!rules) throw createError(`Unknown retention target ${definition.target}`, 400);
+    if (!rules.actions.includes(definition.action)) {
+      throw createError(`${definition.target} can only be ${rules.actions.map(action => action === 'anonymise' ? 'anonymised' : `${action}d`).join(' or ')}`, 400);
+    }
+    if (!rules.dateFields.includes(definition.dateField)) {
+      throw createError(`dateField for ${definition.target} must be one of: ${rules.dateFields.join(', ')}`, 400);
+    }
+    const invalid = (definition.statuses || []).filter(status => !rules.statuses.includes(status));
+    if (invalid.length > 0) {
+      throw createError(`statuses for ${definition.target} must be among: ${rules.statuses.join(', ')}`, 400);
+    }
+  }
+
+  getCutoff(definition: RetentionPolicyDefinition, now: Date = new Date()): Date {
+    return new Date(now.getTime() - definition.afterDays * DAY_MS);
+  }
+
+  // Records the policy applies to, leaving out those the action has already been applied to
+  buildFilter(definition: RetentionPolicyDefinition, now: Date = new Date()): FilterQuery<any> {
+    const rules = TARGET_RULES[definition.target];
+    const conditions: FilterQuery<any>[] = [{ [definition.dateField]: { $lte: this.getCutoff(definition, now) } }];
+
+    const statuses = definition.statuses?.length ? definition.statuses : [...rules.statuses];
+    if (definition.target === 'subscribers') {
+      if (statuses.length === 1) {
+        conditions.push({ confirmedAt: statuses[0] === 'confirmed' ? { $ne: null } : null });
+      }
+    } else {
+      conditions.push({ status: { $in: statuses } });
+    }
+
+    if (definition.action === 'archive') conditions.push({ status: { $ne: 'archived' } });
+    if (definition.action === 'anonymise') conditions.push({ anonymisedAt: null });
+
+    return { $and: conditions };
+  }
+
+  // What the policy would affect if it ran now; changes nothing
+  async preview(definition: RetentionPolicyDefinition, now: Date = new Date()): Promise<RetentionPreview> {
+    this.validate(definition);
+    const model = TARGET_RULES[definition.target].model();
+    const filter = this.buildFilter(definition, now);
+    const fields = ['createdAt', definition.dateField, definition.target === 'subscribers' ? 'confirmedAt' : 'status'];
+
+    const [matched, sample] = await Promise.all([
+      model.countDocuments(filter),
+      model.find(filter).sort({ [definition.dateField]: 1 }).limit(PREVIEW_SAMPLE_SIZE).select(Array.from(new Set(fields)).join(' ')).lean(),
+    ]);
+
+    return { cutoff: this.getCutoff(definition, now), matched, sample: sample as Record<string, unknown>[] };
+  }
+
+  // Applies one policy and records the outcome on it
+  async apply(policy: IRetentionPolicy, now: Date = new Date()): Promise<{ matched: number; affected: number }> {
+    this.validate(policy);
+    const model = TARGET_RULES[policy.target].model();
+    const filter = this.buildFilter(policy, now);
+    const matched = await model.countDocuments(filter);
+    let affected = 0;
+
+    try {
+      if (matched > 0) {
+        if (policy.action === 'archive') {
+          affected = (await Contact.updateMany(filter, { $set: { status: 'archived', archivedAt: now } })).modifiedCount;
+        } else if (policy.action === 'delete') {
+          affected = (await model.deleteMany(filter)).deletedCount;
+        } else if (policy.target === 'contacts') {
+          affected = await privacyService.anonymiseContacts(filter, now);
+        } else {
+          for await (const appointment of Appointment.find(filter).cursor()) {
+            try {
+              await privacyService.anonymiseAppointment(appointment, now);
+              affected++;
+            } catch (error) {
+              console.warn(`⚠️ Failed to anonymise appointment ${appointment.referenceId}:`, error);
+            }
+          }
+        }
+      }
+
+      policy.lastRun = { ranAt: now, matched, affected };
+      await policy.save();
+    } catch (error: any) {
+      policy.lastRun = { ranAt: now, matched, affected, error: error?.message };
+      await policy.save();
+      throw error;
+    }
+
+    if (affected > 0) {
+      console.log(`🗄️ Retention policy "${policy.name}": ${policy.action} ${affected} ${policy.target}`);
+    }
+    return { matched, affected };
+  }
+
+  // Runs every enabled policy; one failing policy does not stop the others
+  async runEnabled(now: Date = new Date()): Promise<RetentionRunSummary> {
+    const policies = await RetentionPolicy.find({ enabled: true }).sort({ createdAt: 1 });
+    const summary: RetentionRunSummary = { policies: policies.length, affected: 0, results: [] };
+
+    for (const policy of policies) {
+      try {
+        const result = await this.apply(policy, now);
+        summary.affected += result.affected;
+        summary.results.push({ policy: policy.name, ...result });
+      } catch (error: any) {
+        console.error(`❌ Retention policy "${policy.name}" failed:`, error);
+        summary.results.push({ policy: policy.name, matched: policy.lastRun?.matched || 0, affected: 0, error: error?.message });
+      }
+    }
+
+    return summary;
+  }
+
+  async findPolicy(id: string | Types.ObjectId): Promise<IRetentionPolicy> {
+    const policy = await RetentionPolicy.findById(id);
+    if (!policy) throw createError('Retention policy not found', 404);
+    return policy;
+  }
+}
+
+export const retentionService = new RetentionService();
@@ -0,0 +1,94 @@
+import { ClinicSchedule, IClinicSchedule, IClosure, DEFAULT_CLINIC_SCHEDULE } from '../models/ClinicSchedule.js';
+import { formatTimeSlot, parseClockTime, parseTimeSlot, getDayRange, getDayOfWeek } from '../utils/timeSlots.js';
+
+export interface DaySchedule {
+  date: string;
+  isOpen: boolean;
+  closedReason?: string;
+  slotLength: number;
+  slots: string[];
+}
+
+class ScheduleService {
+  // Loads the clinic schedule, creating the default one on first use
+  async getSchedule(): Promise<IClinicSchedule> {
+    const schedule = await ClinicSchedule.findOneAndUpdate(
+      { key: 'default' },
+      { $setOnInsert: DEFAULT_CLINIC_SCHEDULE },
+      { upsert: true, new: true }
+    );
+    return schedule!;
+  }
+
+  // Closures that cover any part of the given day
+  getClosuresForDate(schedule: IClinicSchedule, dateKey: string): IClosure[] {
+    const { start } = getDayRange(dateKey);
+    return schedule.closures.filter(closure => {
+      const lastDay = closure.endDate || closure.date;
+      return closure.date <= start && lastDay >= start;
+    });
+  }
+
+  // Slot labels for a weekday after opening hours, breaks and partial-day closures
+  private buildSlots(schedule: IClinicSchedule, dayOfWeek: number, closures: IClosure[]): string[] {
+    const hours = schedule.weeklyHours.find(day => day.dayOfWeek === dayOfWeek);
+    if (!hours || !hours.isOpen) return [];
+
+    const blocked = [
+      ...schedule.breaks
+        .filter(entry => entry.daysOfWeek.length === 0 || entry.daysOfWeek.includes(dayOfWeek))
+        .map(entry => ({ start: parseClockTime(entry.startTime), end: parseClockTime(entry.endTime) })),
+      ...closures.map(closure => ({ start: parseClockTime(closure.startTime!), end: parseClockTime(closure.endTime!) })),
+    ];
+
+    const open = parseClockTime(hours.openTime);
+    const close = parseClockTime(hours.closeTime);
+    const slots: string[] = [];
+    for (let start = open; start + schedule.slotLength <= close; start += schedule.slotLength) {
+      const end = start + schedule.slotLength;
+      if (!blocked.some(range => range.start < end && start < range.end)) {
+        slots.push(formatTimeSlot(start));
+      }
+    }
+    return slots;
+  }
+
+  // Bookable slot labels for a calendar day
+  getDaySchedule(schedule: IClinicSchedule, dateKey: string): DaySchedule {
+    const result: DaySchedule = { date: dateKey, isOpen: false, slotLength: schedule.slotLength, slots: [] };
+
+    const closures = this.getClosuresForDate(schedule, dateKey);
+    const fullDayClosure = closures.find(closure => !closure.startTime || !closure.endTime);
+    if (fullDayClosure) {
+      return { ...result, closedReason: fullDayClosure.reason };
+    }
+
+    const slots = this.buildSlots(schedule, getDayOfWeek(dateKey), closures);
+    if (slots.length === 0) {
+      return { ...result, closedReason: 'The clinic is closed on this day' };
+    }
+
+    return { ...result, isOpen: true, slots };
+  }
+
+  async getSlotsForDate(dateKey: string): Promise<DaySchedule> {
+    return this.getDaySchedule(await this.getSchedule(), dateKey);
+  }
+
+  async isBookableSlot(dateKey: string, time: string): Promise<boolean> {
+    const { slots } = await this.getSlotsForDate(dateKey);
+    return slots.includes(time);
+  }
+
+  // Every slot label offered on a regular week, ignoring closures, in time order
+  async getWeeklySlotLabels(): Promise<string[]> {
+    const schedule = await this.getSchedule();
+    const labels = new Set<string>();
+    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+      this.buildSlots(schedule, dayOfWeek, []).forEach(slot => labels.add(slot));
+    }
+    return Array.from(labels).sort((a, b) => parseTimeSlot(a)! - parseTimeSlot(b)!);
+  }
+}
+
+export const scheduleService = new ScheduleService();
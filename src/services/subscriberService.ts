@@ -0,0 +1,48 @@
+import { Subscriber, ISubscriber } from '../models/Subscriber.js';
+import { emailService } from './emailService.js';
+import { linkService } from './linkService.js';
+import { createError } from '../middleware/errorHandler.js';
+
+class SubscriberService {
+  // Sends the double opt-in email; a failed send does not undo the sign-up
+  async requestConfirmation(subscriber: ISubscriber): Promise<void> {
+    try {
+      await emailService.sendSubscriptionConfirmation(
+        subscriber.email,
+        linkService.getSubscriptionConfirmUrl(String(subscriber._id))
+      );
+    } catch (error) {
+      console.warn('⚠️ Failed to send subscription confirmation:', error);
+    }
+  }
+
+  // Confirms the subscription the link was sent for; confirming twice is harmless
+  async confirm(token: string): Promise<ISubscriber> {
+    const subscriberId = linkService.verify(token, 'subscription-confirm');
+    if (!subscriberId) throw createError('This confirmation link is invalid or has expired', 401);
+
+    const subscriber = await Subscriber.findById(subscriberId);
+    if (!subscriber) throw createError('This subscription no longer exists; please sign up again', 404);
+
+    if (!subscriber.confirmedAt) {
+      subscriber.confirmedAt = new Date();
+      await subscriber.save();
+      console.log(`📬 Subscription confirmed for ${subscriber.email}`);
+    }
+    return subscriber;
+  }
+
+  // Sign-ups from before confirmation existed count as confirmed; safe to run on every start
+  async backfillConfirmations(): Promise<number> {
+    const result = await Subscriber.updateMany(
+      { confirmedAt: { $exists: false } },
+      [{ $set: { confirmedAt: '$createdAt' } }]
+    );
+    if (result.modifiedCount > 0) {
+      console.log(`📬 Marked ${result.modifiedCount} existing subscriber(s) as confirmed`);
+    }
+    return result.modifiedCount;
+  }
+}
+
+export const subscriberService = new SubscriberService();
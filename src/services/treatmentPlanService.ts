@@ -0,0 +1,173 @@
+import { Types } from 'mongoose';
+import { TreatmentPlan, ITreatmentPlan } from '../models/TreatmentPlan.js';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { IPractitioner } from '../models/Practitioner.js';
+import { availabilityService, ACTIVE_APPOINTMENT_STATUSES } from './availabilityService.js';
+import { getSlotStart, getDayRange, toDateKey } from '../utils/timeSlots.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PlannedSession {
+  sessionNumber: number;
+  date: Date;
+  time: string;
+  appointmentId?: string; // set when moving an existing session
+}
+
+export interface SessionCheck extends PlannedSession {
+  available: boolean;
+  reason?: string;
+  practitioner?: IPractitioner;
+  alternatives: string[];
+}
+
+export interface PlanProgress {
+  totalSessions: number;
+  completed: number;
+  noShow: number;
+  cancelled: number;
+  upcoming: number;
+  currentSession: number | null; // next session still to happen
+  label: string;
+}
+
+export interface ScheduleCheckOptions {
+  duration: number;
+  treatment?: Types.ObjectId | null;
+  treatmentType: string;
+  practitioner?: string;
+  // Sessions being moved; they give up their current slots, so the series can shift onto its own dates
+  excludeAppointmentIds?: string[];
+}
+
+class TreatmentPlanService {
+  // Sessions every `intervalDays` from the start date, all at the same time
+  buildSchedule(startDate: Date | string, time: string, count: number, intervalDays: number, firstSessionNumber = 1): PlannedSession[] {
+    const start = getDayRange(toDateKey(startDate)).start;
+    return Array.from({ length: count }, (_, index) => ({
+      sessionNumber: firstSessionNumber + index,
+      date: new Date(start.getTime() + index * intervalDays * DAY_MS),
+      time,
+    }));
+  }
+
+  // Checks every session in turn, keeping the same practitioner across the series where possible. Sessions already
+  // accepted count as booked for the later ones, so two sessions cannot take the same slot or practitioner.
+  async checkSchedule(sessions: PlannedSession[], options: ScheduleCheckOptions): Promise<SessionCheck[]> {
+    const now = new Date();
+    const checks: SessionCheck[] = [];
+    const accepted: IAppointment[] = [];
+    let practitioner: Types.ObjectId | undefined = options.practitioner ? new Types.ObjectId(options.practitioner) : undefined;
+
+    for (const session of sessions) {
+      const startsAt = getSlotStart(session.date, session.time);
+      if (!startsAt || startsAt <= now) {
+        checks.push({ ...session, available: false, reason: 'This session would be in the past', alternatives: [] });
+        continue;
+      }
+
+      const dateKey = toDateKey(session.date);
+      const excluded = [...(options.excludeAppointmentIds || []), ...(session.appointmentId ? [session.appointmentId] : [])];
+      const slotCheck = await availabilityService.checkSlot(dateKey, session.time, options.duration, excluded, {
+        treatment: options.treatment,
+        practitioner: options.practitioner,
+        unsaved: accepted,
+      });
+
+      if (!slotCheck.available) {
+        const day = await availabilityService.getDayAvailability(dateKey, options.treatmentType, options.practitioner);
+        checks.push({
+          ...session,
+          available: false,
+          reason: slotCheck.reason,
+          alternatives: day.slots.filter(slot => slot.available).map(slot => slot.time),
+        });
+        continue;
+      }
+
+      const assigned = availabilityService.pickPractitioner(slotCheck, practitioner);
+      if (assigned) practitioner = assigned._id as Types.ObjectId;
+      checks.push({ ...session, available: true, practitioner: assigned, alternatives: [] });
+      accepted.push(new Appointment({
+        preferredDate: session.date,
+        preferredTime: session.time,
+        duration: options.duration,
+        practitioner: assigned?._id,
+      }));
+    }
+
+    return checks;
+  }
+
+  async getSessions(planId: Types.ObjectId | string): Promise<IAppointment[]> {
+    return Appointment.find({ treatmentPlan: planId }).sort({ sessionNumber: 1 });
+  }
+
+  // Sessions that have not happened yet and can still be moved or cancelled
+  getRemainingSessions(sessions: IAppointment[], fromSession = 1): IAppointment[] {
+    return sessions.filter(session =>
+      ACTIVE_APPOINTMENT_STATUSES.includes(session.status) && (session.sessionNumber || 0) >= fromSession
+    );
+  }
+
+  getProgress(plan: ITreatmentPlan, sessions: IAppointment[]): PlanProgress {
+    const count = (status: IAppointment['status']) => sessions.filter(session => session.status === status).length;
+    const upcoming = this.getRemainingSessions(sessions);
+    const currentSession = upcoming.length > 0 ? upcoming[0].sessionNumber || null : null;
+
+    let label: string;
+    if (plan.status === 'cancelled') label = 'Cancelled';
+    else if (currentSession) label = `Session ${currentSession} of ${plan.totalSessions}`;
+    else label = 'Completed';
+
+    return {
+      totalSessions: plan.totalSessions,
+      completed: count('completed'),
+      noShow: count('no-show'),
+      cancelled: count('cancelled'),
+      upcoming: upcoming.length,
+      currentSession,
+      label,
+    };
+  }
+
+  // Marks an active plan completed once none of its sessions is still to come
+  async syncStatus(planId: Types.ObjectId | string): Promise<void> {
+    const plan = await TreatmentPlan.findById(planId);
+    if (!plan || plan.status !== 'active') return;
+
+    const sessions = await this.getSessions(plan._id as Types.ObjectId);
+    if (this.getRemainingSessions(sessions).length === 0) {
+      plan.status = 'completed';
+      await plan.save();
+    }
+  }
+
+  // Series details shown alongside a single appointment
+  async getSeries(appointment: IAppointment) {
+    if (!appointment.treatmentPlan) return null;
+
+    const plan = await TreatmentPlan.findById(appointment.treatmentPlan);
+    if (!plan) return null;
+
+    const sessions = await this.getSessions(plan._id as Types.ObjectId);
+    return {
+      id: plan._id,
+      treatmentType: plan.treatmentType,
+      status: plan.status,
+      totalSessions: plan.totalSessions,
+      intervalDays: plan.intervalDays,
+      sessionNumber: appointment.sessionNumber,
+      progress: this.getProgress(plan, sessions),
+      sessions: sessions.map(session => ({
+        id: session._id,
+        sessionNumber: session.sessionNumber,
+        date: session.confirmedDate || session.preferredDate,
+        time: session.confirmedTime || session.preferredTime,
+        status: session.status,
+      })),
+    };
+  }
+}
+
+export const treatmentPlanService = new TreatmentPlanService();
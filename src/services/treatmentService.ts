@@ -0,0 +1,45 @@
+import { Types } from 'mongoose';
+import { Treatment, ITreatment, DEFAULT_TREATMENTS } from '../models/Treatment.js';
+
+export const DEFAULT_TREATMENT_DURATION = 60;
+
+class TreatmentService {
+  // Seeds the catalog with the clinic's original treatments when it is empty
+  async ensureDefaults(): Promise<void> {
+    const count = await Treatment.countDocuments();
+    if (count > 0) return;
+
+    await Treatment.insertMany(DEFAULT_TREATMENTS.map((treatment, index) => ({ ...treatment, sortOrder: index })));
+    console.log(`💉 Seeded ${DEFAULT_TREATMENTS.length} default treatments`);
+  }
+
+  async getActiveTreatments(): Promise<ITreatment[]> {
+    return Treatment.find({ isActive: true }).sort({ sortOrder: 1, name: 1 });
+  }
+
+  async findActiveByName(name: string): Promise<ITreatment | null> {
+    return Treatment.findOne({ name, isActive: true });
+  }
+
+  async findByName(name: string): Promise<ITreatment | null> {
+    return Treatment.findOne({ name });
+  }
+
+  // Catalog entry an appointment was booked for; older bookings only carry the name
+  async getForAppointment(appointment: { treatment?: Types.ObjectId; treatmentType: string }): Promise<ITreatment | null> {
+    if (appointment.treatment) {
+      const treatment = await Treatment.findById(appointment.treatment);
+      if (treatment) return treatment;
+    }
+    return this.findByName(appointment.treatmentType);
+  }
+
+  toSlug(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
+
+export const treatmentService = new TreatmentService();
@@ -0,0 +1,239 @@
+import { Types } from 'mongoose';
+import {
+  TriageRule,
+  ITriageRule,
+  ITriageConditions,
+  ITriageActions,
+  TriageTarget,
+  TriagePriority,
+  TRIAGE_PRIORITIES,
+  TRIAGE_SOURCES,
+} from '../models/TriageRule.js';
+import { IContact } from '../models/Contact.js';
+import { IAppointment } from '../models/Appointment.js';
+import { emailService } from './emailService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { getSlotStart } from '../utils/timeSlots.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type TriageRuleDefinition = Pick<ITriageRule, 'target' | 'conditions' | 'actions'>;
+
+// The fields rules can look at, taken from a new contact or appointment or from a test payload
+export interface TriageInput {
+  subject?: string;
+  message?: string;
+  treatmentType?: string;
+  source?: string;
+  startsAt?: Date | null;
+}
+
+export type TriageConditionName = 'keywords' | 'treatmentTypes' | 'sources' | 'minHoursUntilStart' | 'maxHoursUntilStart';
+
+export interface TriageRuleCheck {
+  matched: boolean;
+  conditions: Partial<Record<TriageConditionName, boolean>>; // only the conditions the rule sets
+}
+
+export interface TriageOutcome {
+  priority?: TriagePriority;
+  tags: string[];
+  assignedTo?: string;
+  notifyEmails: string[];
+}
+
+export interface TriageResult {
+  target: TriageTarget;
+  rules: ITriageRule[]; // matching rules, in evaluation order
+  outcome: TriageOutcome;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words or phrases, so "rash" does not match "crash"
+const containsKeyword = (text: string, keyword: string): boolean =>
+  new RegExp(`(^|\\W)${escapeRegExp(keyword)}($|\\W)`, 'i').test(text);
+
+const hasValue = (value: unknown): boolean => value !== undefined && value !== null;
+
+class TriageService {
+  // Rejects rules that would match everything, do nothing, or use conditions the target does not have
+  validate(definition: TriageRuleDefinition): void {
+    const conditions = definition.conditions || {} as ITriageConditions;
+    const actions = definition.actions || {} as ITriageActions;
+    const setConditions = this.getSetConditions(conditions);
+    if (setConditions.length === 0) {
+      throw createError('A rule needs at least one condition', 400);
+    }
+    if (!actions.priority && !actions.tags?.length && !actions.assignedTo && !actions.notifyEmails?.length) {
+      throw createError('A rule needs at least one action', 400);
+    }
+
+    if (definition.target === 'contact') {
+      const appointmentOnly = setConditions.filter(name => name === 'treatmentTypes' || name.endsWith('HoursUntilStart'));
+      if (appointmentOnly.length > 0) {
+        throw createError(`${appointmentOnly.join(', ')} only apply to appointments`, 400);
+      }
+    }
+    const sources = TRIAGE_SOURCES[definition.target];
+    const invalid = (conditions.sources || []).filter(source => !sources.includes(source));
+    if (invalid.length > 0) {
+      throw createError(`sources for ${definition.target} rules must be among: ${sources.join(', ')}`, 400);
+    }
+    if (hasValue(conditions.minHoursUntilStart) && hasValue(conditions.maxHoursUntilStart) &&
+      conditions.minHoursUntilStart! > conditions.maxHoursUntilStart!) {
+      throw createError('minHoursUntilStart cannot be greater than maxHoursUntilStart', 400);
+    }
+  }
+
+  private getSetConditions(conditions: ITriageConditions): TriageConditionName[] {
+    const names: TriageConditionName[] = [];
+    if (conditions.keywords?.length) names.push('keywords');
+    if (conditions.treatmentTypes?.length) names.push('treatmentTypes');
+    if (conditions.sources?.length) names.push('sources');
+    if (hasValue(conditions.minHoursUntilStart)) names.push('minHoursUntilStart');
+    if (hasValue(conditions.maxHoursUntilStart)) names.push('maxHoursUntilStart');
+    return names;
+  }
+
+  fromContact(contact: IContact): TriageInput {
+    return { subject: contact.subject, message: contact.message, source: contact.source };
+  }
+
+  fromAppointment(appointment: IAppointment, source: string): TriageInput {
+    return {
+      message: appointment.message,
+      treatmentType: appointment.treatmentType,
+      source,
+      // startsAt is only computed on save, and rules run before the first save
+      startsAt: appointment.startsAt || getSlotStart(
+        appointment.confirmedDate || appointment.preferredDate,
+        appointment.confirmedTime || appointment.preferredTime
+      ),
+    };
+  }
+
+  // Checks one rule against the input, condition by condition
+  checkRule(rule: Pick<ITriageRule, 'conditions'>, input: TriageInput, now: Date = new Date()): TriageRuleCheck {
+    const { conditions } = rule;
+    const hoursUntilStart = input.startsAt ? (input.startsAt.getTime() - now.getTime()) / HOUR_MS : null;
+    const checks: TriageRuleCheck['conditions'] = {};
+
+    for (const name of this.getSetConditions(conditions)) {
+      switch (name) {
+        case 'keywords': {
+          const text = [input.subject, input.message].filter(Boolean).join('\n');
+          checks.keywords = conditions.keywords.some(keyword => containsKeyword(text, keyword));
+          break;
+        }
+        case 'treatmentTypes':
+          checks.treatmentTypes = !!input.treatmentType &&
+            conditions.treatmentTypes.some(type => type.toLowerCase() === input.treatmentType!.toLowerCase());
+          break;
+        case 'sources':
+          checks.sources = !!input.source && conditions.sources.includes(input.source);
+          break;
+        case 'minHoursUntilStart':
+          checks.minHoursUntilStart = hoursUntilStart !== null && hoursUntilStart >= conditions.minHoursUntilStart!;
+          break;
+        case 'maxHoursUntilStart':
+          checks.maxHoursUntilStart = hoursUntilStart !== null && hoursUntilStart <= conditions.maxHoursUntilStart!;
+          break;
+      }
+    }
+
+    return { matched: Object.values(checks).every(Boolean), conditions: checks };
+  }
+
+  // The highest priority wins, tags and recipients are combined, and the first rule that assigns someone decides
+  combine(rules: Pick<ITriageRule, 'actions'>[]): TriageOutcome {
+    const outcome: TriageOutcome = { tags: [], notifyEmails: [] };
+    for (const { actions } of rules) {
+      if (actions.priority && (!outcome.priority ||
+        TRIAGE_PRIORITIES.indexOf(actions.priority) > TRIAGE_PRIORITIES.indexOf(outcome.priority))) {
+        outcome.priority = actions.priority;
+      }
+      outcome.tags = Array.from(new Set([...outcome.tags, ...(actions.tags || [])]));
+      outcome.notifyEmails = Array.from(new Set([...outcome.notifyEmails, ...(actions.notifyEmails || [])]));
+      if (!outcome.assignedTo && actions.assignedTo) outcome.assignedTo = actions.assignedTo;
+    }
+    return outcome;
+  }
+
+  async getRules(target: TriageTarget, options: { includeDisabled?: boolean } = {}): Promise<ITriageRule[]> {
+    return TriageRule.find({ target, ...(options.includeDisabled ? {} : { enabled: true }) }).sort({ order: 1, createdAt: 1 });
+  }
+
+  async evaluate(target: TriageTarget, input: TriageInput, now: Date = new Date()): Promise<TriageResult> {
+    const rules = (await this.getRules(target)).filter(rule => this.checkRule(rule, input, now).matched);
+    return { target, rules, outcome: this.combine(rules) };
+  }
+
+  /**
+   * Runs the enabled rules against a new record before its first save and applies their priority, tags and
+   * assignment. A failure is logged and the record is saved untriaged, so triage never blocks a booking or message.
+   */
+  async apply(target: 'contact', record: IContact): Promise<TriageResult | null>;
+  async apply(target: 'appointment', record: IAppointment, source: string): Promise<TriageResult | null>;
+  async apply(target: TriageTarget, record: IContact | IAppointment, source?: string): Promise<TriageResult | null> {
+    try {
+      const input = target === 'contact'
+        ? this.fromContact(record as IContact)
+        : this.fromAppointment(record as IAppointment, source!);
+      const result = await this.evaluate(target, input);
+      if (result.rules.length === 0) return result;
+
+      const { outcome } = result;
+      if (outcome.priority) record.priority = outcome.priority;
+      for (const tag of outcome.tags) {
+        if (!record.tags.includes(tag)) record.tags.push(tag);
+      }
+      if (outcome.assignedTo && !record.assignedTo) record.assignedTo = outcome.assignedTo;
+      return result;
+    } catch (error) {
+      console.warn(`⚠️ Failed to triage new ${target}:`, error);
+      return null;
+    }
+  }
+
+  // After the record is saved: emails the staff the matching rules name and counts the matches
+  async notify(result: TriageResult | null, record: IContact | IAppointment): Promise<void> {
+    if (!result || result.rules.length === 0) return;
+
+    await TriageRule.updateMany(
+      { _id: { $in: result.rules.map(rule => rule._id as Types.ObjectId) } },
+      { $inc: { matchCount: 1 }, $set: { lastMatchedAt: new Date() } }
+    ).catch(error => console.warn('⚠️ Failed to record triage rule matches:', error));
+
+    if (result.outcome.notifyEmails.length === 0) return;
+    try {
+      const contact = result.target === 'contact' ? record as IContact : null;
+      const appointment = result.target === 'appointment' ? record as IAppointment : null;
+      await emailService.sendTriageAlert({
+        to: result.outcome.notifyEmails,
+        target: result.target,
+        rules: result.rules.map(rule => rule.name),
+        priority: record.priority,
+        tags: record.tags,
+        name: record.name,
+        email: record.email,
+        subject: contact?.subject,
+        treatmentType: appointment?.treatmentType,
+        appointmentDate: appointment ? (appointment.confirmedDate || appointment.preferredDate).toISOString() : undefined,
+        appointmentTime: appointment ? appointment.confirmedTime || appointment.preferredTime : undefined,
+        message: contact?.message || appointment?.message,
+        referenceId: record.referenceId,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to send triage alert for ${record.referenceId}:`, error);
+    }
+  }
+
+  async findRule(id: string | Types.ObjectId): Promise<ITriageRule> {
+    const rule = await TriageRule.findById(id);
+    if (!rule) throw createError('Triage rule not found', 404);
+    return rule;
+  }
+}
+
+export const triageService = new TriageService();
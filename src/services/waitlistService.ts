@@ -0,0 +1,207 @@
+import { Types } from 'mongoose';
+import { WaitlistEntry, IWaitlistEntry } from '../models/WaitlistEntry.js';
+import { Appointment, IAppointment } from '../models/Appointment.js';
+import { availabilityService } from './availabilityService.js';
+import { treatmentService, DEFAULT_TREATMENT_DURATION } from './treatmentService.js';
+import { emailService } from './emailService.js';
+import { linkService } from './linkService.js';
+import { patientService } from './patientService.js';
+import { triageService } from './triageService.js';
+import { createError } from '../middleware/errorHandler.js';
+import { getSlotStart, getDayRange, toDateKey, getClinicDateKey } from '../utils/timeSlots.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface FreedSlot {
+  date: Date;
+  time: string;
+  sourceAppointment?: Types.ObjectId;
+}
+
+export interface WaitlistRunSummary {
+  expiredOffers: number;
+  reoffered: number;
+  closedEntries: number;
+}
+
+class WaitlistService {
+  getOfferHours(): number {
+    return Math.max(1, parseFloat(process.env.WAITLIST_OFFER_HOURS || '12'));
+  }
+
+  // Marks the entry as offered and emails the claim link; returns null if the entry was no longer waiting
+  async sendOffer(entry: IWaitlistEntry, slot: FreedSlot): Promise<IWaitlistEntry | null> {
+    const startsAt = getSlotStart(slot.date, slot.time);
+    if (!startsAt) return null;
+
+    const offeredAt = new Date();
+    const expiresAt = new Date(Math.min(offeredAt.getTime() + this.getOfferHours() * HOUR_MS, startsAt.getTime()));
+
+    const offered = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: 'waiting' },
+      {
+        $set: {
+          status: 'offered',
+          offer: { date: slot.date, time: slot.time, sourceAppointment: slot.sourceAppointment, offeredAt, expiresAt },
+        },
+      },
+      { new: true }
+    );
+    if (!offered) return null;
+
+    try {
+      await emailService.sendWaitlistOffer({
+        name: offered.name,
+        email: offered.email,
+        treatmentType: offered.treatmentType,
+        appointmentDate: slot.date.toISOString(),
+        appointmentTime: slot.time,
+        expiresAt,
+        claimUrl: linkService.getWaitlistClaimUrl(String(offered._id), expiresAt),
+        treatment: await treatmentService.getForAppointment(offered),
+      });
+    } catch (emailError) {
+      console.warn('⚠️ Failed to send waitlist offer email:', emailError);
+    }
+
+    console.log(`📨 Waitlist offer sent to ${offered.email} for ${toDateKey(slot.date)} ${slot.time}`);
+    return offered;
+  }
+
+  // Offers a free slot to the longest-waiting patient whose dates and treatment fit it
+  async offerSlot(slot: FreedSlot, excludeEntryIds: Types.ObjectId[] = []): Promise<IWaitlistEntry | null> {
+    const startsAt = getSlotStart(slot.date, slot.time);
+    if (!startsAt || startsAt <= new Date()) return null;
+
+    const dateKey = toDateKey(slot.date);
+    const { start } = getDayRange(dateKey);
+    const candidates = await WaitlistEntry.find({
+      _id: { $nin: excludeEntryIds },
+      status: 'waiting',
+      dateFrom: { $lte: start },
+      dateTo: { $gte: start },
+    }).sort({ createdAt: 1 });
+
+    for (const entry of candidates) {
+      const treatment = await treatmentService.getForAppointment(entry);
+      const slotCheck = await availabilityService.checkSlot(
+        dateKey,
+        slot.time,
+        treatment?.defaultDuration || DEFAULT_TREATMENT_DURATION,
+        undefined,
+        { treatment: treatment?._id as Types.ObjectId | undefined }
+      );
+      if (!slotCheck.available) continue;
+
+      const offered = await this.sendOffer(entry, slot);
+      if (offered) return offered;
+    }
+    return null;
+  }
+
+  // Called after an appointment is cancelled, or moved away from `slot`; never fails the change itself
+  async offerFreedSlot(appointment: IAppointment, slot?: { date: Date; time: string }): Promise<void> {
+    try {
+      await this.offerSlot({
+        date: slot?.date || appointment.confirmedDate || appointment.preferredDate,
+        time: slot?.time || appointment.confirmedTime || appointment.preferredTime,
+        sourceAppointment: appointment._id as Types.ObjectId,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to offer the slot freed by ${appointment.referenceId} to the waitlist:`, error);
+    }
+  }
+
+  // Books the offered slot for the patient; puts them back on the waitlist if it has been taken meanwhile
+  async claimOffer(entryId: string): Promise<{ entry: IWaitlistEntry; appointment: IAppointment }> {
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      { _id: entryId, status: 'offered', 'offer.expiresAt': { $gt: new Date() } },
+      { $set: { status: 'booked' } },
+      { new: true }
+    );
+    if (!entry || !entry.offer) {
+      throw createError('This offer is no longer available', 409);
+    }
+
+    const { date, time } = entry.offer;
+    const treatment = await treatmentService.getForAppointment(entry);
+    const duration = treatment?.defaultDuration || DEFAULT_TREATMENT_DURATION;
+    const appointment = new Appointment({
+      name: entry.name,
+      email: entry.email,
+      phone: entry.phone,
+      phoneRaw: entry.phoneRaw,
+      treatmentType: entry.treatmentType,
+      treatment: treatment?._id,
+      preferredDate: date,
+      preferredTime: time,
+      message: entry.message,
+      duration,
+      priority: 'medium',
+      tags: ['waitlist'],
+    });
+    // The clinic offered this exact slot, so claiming it confirms the booking
+    appointment.transitionTo('confirmed', { kind: 'patient', name: entry.name }, 'Claimed a waitlist offer');
+    const triage = await triageService.apply('appointment', appointment, 'waitlist');
+
+    const dateKey = toDateKey(date);
+    const slotCheck = await availabilityService.withDayLocks([dateKey], async () => {
+      const check = await availabilityService.checkSlot(dateKey, time, duration, undefined, {
+        treatment: treatment?._id as Types.ObjectId | undefined,
+      });
+      if (check.available) {
+        appointment.practitioner = availabilityService.pickPractitioner(check)?._id as Types.ObjectId | undefined;
+        appointment.patient = await patientService.resolveId(entry);
+        await appointment.save();
+      }
+      return check;
+    }).catch(async (error) => {
+      // Nothing was booked, so the patient can try the same offer again
+      await WaitlistEntry.updateOne({ _id: entry._id, status: 'booked' }, { $set: { status: 'offered' } });
+      throw error;
+    });
+
+    if (!slotCheck.available) {
+      await WaitlistEntry.updateOne({ _id: entry._id }, { $set: { status: 'waiting' }, $unset: { offer: 1 } });
+      throw createError('Sorry, this slot has just been taken. You are still on the waitlist.', 409);
+    }
+    await triageService.notify(triage, appointment);
+
+    entry.appointment = appointment._id as Types.ObjectId;
+    await entry.save();
+
+    return { entry, appointment };
+  }
+
+  // Returns lapsed offers to the waitlist, passes their slots on, and closes entries whose dates have passed
+  async processOffers(now: Date = new Date()): Promise<WaitlistRunSummary> {
+    const summary: WaitlistRunSummary = { expiredOffers: 0, reoffered: 0, closedEntries: 0 };
+
+    const lapsed = await WaitlistEntry.find({ status: 'offered', 'offer.expiresAt': { $lte: now } });
+    for (const entry of lapsed) {
+      const released = await WaitlistEntry.findOneAndUpdate(
+        { _id: entry._id, status: 'offered' },
+        { $set: { status: 'waiting' }, $unset: { offer: 1 }, $inc: { missedOffers: 1 } }
+      );
+      if (!released || !released.offer) continue;
+      summary.expiredOffers++;
+
+      const next = await this.offerSlot(released.offer, [released._id as Types.ObjectId]);
+      if (next) summary.reoffered++;
+    }
+
+    const closed = await WaitlistEntry.updateMany(
+      { status: 'waiting', dateTo: { $lt: getDayRange(getClinicDateKey(now)).start } },
+      { $set: { status: 'expired' } }
+    );
+    summary.closedEntries = closed.modifiedCount;
+
+    if (summary.expiredOffers > 0 || summary.closedEntries > 0) {
+      console.log(`⏳ Waitlist: ${summary.expiredOffers} offer(s) lapsed, ${summary.reoffered} re-offered, ${summary.closedEntries} past their dates`);
+    }
+
+    return summary;
+  }
+}
+
+export const waitlistService = new WaitlistService();
@@ -0,0 +1,73 @@
+import { parsePhoneNumberFromString, validatePhoneNumberLength, CountryCode } from 'libphonenumber-js/max';
+import validator from 'validator';
+
+// Canonical forms used to recognise the same person across bookings, messages and subscriptions
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+// What the normalizeEmail() sanitizer on the forms and login stores, e.g. Gmail addresses without dots or "+tags"
+export const toFormEmail = (email: string): string =>
+  (validator.isEmail(email.trim()) && validator.normalizeEmail(email.trim())) || normalizeEmail(email);
+
+// Country assumed for numbers written without a "+" country code
+export const getDefaultPhoneCountry = (): CountryCode =>
+  (process.env.DEFAULT_PHONE_COUNTRY || 'IN').trim().toUpperCase() as CountryCode;
+
+// E.164 form, e.g. "98765-43210" becomes "+919876543210"; null if the input is not a valid number
+export const toE164 = (phone: string): string | null => {
+  const parsed = parsePhoneNumberFromString(phone.trim(), getDefaultPhoneCountry());
+  return parsed?.isValid() ? parsed.number : null;
+};
+
+// E.164 form, or "" if the input is not a valid number
+export const normalizePhone = (phone: string): string => toE164(phone) || '';
+
+// Why a phone number would be rejected, or null if it is valid
+export const getPhoneNumberError = (phone: string): string | null => {
+  const trimmed = phone.trim();
+  if (!trimmed) return 'Phone number is required';
+  if (!/^[\+]?[\d\s\-\(\)\.]+$/.test(trimmed)) return 'Phone number can only contain digits, spaces, dashes, dots, brackets and a leading +';
+  if (toE164(trimmed)) return null;
+
+  const country = getDefaultPhoneCountry();
+  switch (validatePhoneNumberLength(trimmed, country)) {
+    case 'TOO_SHORT':
+      return 'Phone number is too short';
+    case 'TOO_LONG':
+      return 'Phone number is too long';
+    case 'INVALID_COUNTRY':
+      return 'Phone number has an unknown country code';
+    default:
+      return trimmed.startsWith('+')
+        ? 'Phone number is not valid for its country code'
+        : `Phone number is not a valid ${country} number; include the country code if it is from elsewhere`;
+  }
+};
+
+// express-validator check that throws the specific reason a phone number is invalid
+export const isPhoneNumber = (value: unknown): boolean => {
+  const error = typeof value === 'string' ? getPhoneNumberError(value) : 'Phone number is required';
+  if (error) throw new Error(error);
+  return true;
+};
+
+interface PhoneFields {
+  phone: string;
+  phoneRaw?: string;
+  isModified(path: string): boolean;
+  invalidate(path: string, message: string, value?: unknown): unknown;
+}
+
+// For pre('validate') hooks: stores a changed phone in E.164 and keeps what was typed in phoneRaw
+export const storePhoneAsE164 = (doc: PhoneFields): void => {
+  if (!doc.isModified('phone')) return;
+
+  const e164 = toE164(doc.phone);
+  if (!e164) {
+    doc.invalidate('phone', getPhoneNumberError(doc.phone) || 'Please enter a valid phone number', doc.phone);
+    return;
+  }
+  // Callers copying a number from another record set phoneRaw themselves
+  if (!doc.isModified('phoneRaw')) doc.phoneRaw = doc.phone;
+  doc.phone = e164;
+};
@@ -0,0 +1,22 @@
+// Response-time targets for the contact inbox, in hours from when a message starts waiting for a reply
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type ContactPriority = 'low' | 'medium' | 'high';
+
+const DEFAULT_SLA_HOURS: Record<ContactPriority, number> = { high: 4, medium: 24, low: 72 };
+
+// CONTACT_SLA_HOURS_HIGH, CONTACT_SLA_HOURS_MEDIUM and CONTACT_SLA_HOURS_LOW
+export const getContactSlaHours = (priority: ContactPriority): number => {
+  const configured = parseFloat(process.env[`CONTACT_SLA_HOURS_${priority.toUpperCase()}`] || '');
+  return configured > 0 ? configured : DEFAULT_SLA_HOURS[priority];
+};
+
+export const getContactSlaTargets = (): Record<ContactPriority, number> => ({
+  high: getContactSlaHours('high'),
+  medium: getContactSlaHours('medium'),
+  low: getContactSlaHours('low'),
+});
+
+export const getContactDueAt = (priority: ContactPriority, waitingSince: Date): Date =>
+  new Date(waitingSince.getTime() + getContactSlaHours(priority) * HOUR_MS);
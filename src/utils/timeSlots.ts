@@ -0,0 +1,121 @@
+// Helpers for the "h:mm AM/PM" slot labels used by the booking form
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Converts a label like "3:00 PM" to minutes after midnight; returns null if it cannot be parsed
+export const parseTimeSlot = (label: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(label.trim());
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours < 1 || hours > 12 || minutes > 59) return null;
+
+  const isPm = match[3].toUpperCase() === 'PM';
+  if (hours === 12) hours = 0;
+  return (hours + (isPm ? 12 : 0)) * 60 + minutes;
+};
+
+// express-validator check for a well-formed "h:mm AM/PM" label; whether the slot is open is checked against the schedule
+export const isTimeSlotLabel = (value: unknown): boolean => {
+  if (typeof value !== 'string' || parseTimeSlot(value) === null) {
+    throw new Error('Time must look like "10:00 AM"');
+  }
+  return true;
+};
+
+// Converts minutes after midnight back to a label like "3:00 PM"
+export const formatTimeSlot = (totalMinutes: number): string => {
+  const hours24 = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  const suffix = hours24 >= 12 ? 'PM' : 'AM';
+  const hours12 = hours24 % 12 === 0 ? 12 : hours24 % 12;
+  return `${hours12}:${minutes.toString().padStart(2, '0')} ${suffix}`;
+};
+
+// Converts a 24-hour "HH:mm" clock time to minutes after midnight
+export const parseClockTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(part => parseInt(part));
+  return hours * 60 + minutes;
+};
+
+// Calendar day ("YYYY-MM-DD") of a stored appointment date
+export const toDateKey = (date: Date | string): string => {
+  return new Date(date).toISOString().slice(0, 10);
+};
+
+// Start (inclusive) and end (exclusive) of the stored range for a calendar day
+export const getDayRange = (dateKey: string): { start: Date; end: Date } => {
+  const start = new Date(`${dateKey}T00:00:00.000Z`);
+  return { start, end: new Date(start.getTime() + ONE_DAY_MS) };
+};
+
+// Day of the week (0 = Sunday) of a calendar day
+export const getDayOfWeek = (dateKey: string): number => {
+  return getDayRange(dateKey).start.getUTCDay();
+};
+
+// IANA timezone the clinic's slot labels and calendar days are in
+export const getClinicTimeZone = (): string => process.env.CLINIC_TIMEZONE || 'Asia/Kolkata';
+
+// Minutes the timezone is ahead of UTC at the given instant
+const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: string) => parseInt(parts.find(item => item.type === type)!.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+// Instant a slot label starts on a stored calendar day, in the clinic's timezone
+export const getSlotStart = (date: Date | string, label: string): Date | null => {
+  const minutes = parseTimeSlot(label);
+  if (minutes === null) return null;
+
+  const timeZone = getClinicTimeZone();
+  const wallClock = getDayRange(toDateKey(date)).start.getTime() + minutes * 60 * 1000;
+  // Apply the offset in force at that wall-clock time; the second pass settles days when DST changes
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60 * 1000;
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone) * 60 * 1000;
+  return new Date(instant);
+};
+
+// Calendar day ("YYYY-MM-DD") an instant falls on at the clinic
+export const getClinicDateKey = (instant: Date = new Date()): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: getClinicTimeZone(),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+};
+
+// First and last instant (exclusive) of a calendar day at the clinic
+export const getClinicDayBounds = (dateKey: string): { start: Date; end: Date } => {
+  const nextDayKey = toDateKey(getDayRange(dateKey).end);
+  return { start: getSlotStart(dateKey, '12:00 AM')!, end: getSlotStart(nextDayKey, '12:00 AM')! };
+};
+
+// Long date for a stored calendar day, e.g. "Monday, January 22, 2024"; stored days are UTC midnight
+export const formatCalendarDate = (date: Date | string): string => {
+  return new Date(date).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+// Date and time of an instant as the clinic sees it
+export const formatClinicDateTime = (instant: Date): string => {
+  return instant.toLocaleString('en-US', { timeZone: getClinicTimeZone(), dateStyle: 'full', timeStyle: 'short' });
+};